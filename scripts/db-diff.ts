@@ -0,0 +1,276 @@
+#!/usr/bin/env bun
+
+// Shows what changed between two builds of the chunk database: which chunks
+// were added, removed, or modified, and, given some queries, how their top
+// results moved.
+
+import type { FeatureExtractionPipeline } from "@huggingface/transformers";
+import process from "node:process";
+import { parseArgs } from "node:util";
+import * as Embedding from "../shared/embeddings";
+import * as Result from "../shared/result";
+import * as Search from "../shared/search";
+import * as ChunkDb from "./lib/chunk-database";
+import * as DbDiff from "./lib/db-diff";
+import type { ChunkRef } from "./lib/db-stats";
+import { loadChunkDatabase } from "./lib/load-chunk-database";
+import { readQueryFile } from "./lib/query-file";
+
+export const USAGE =
+  "USAGE -- args: [--json] [--queries <queries.txt>] [--mode <semantic|lexical|hybrid>] [--top-k <n>] <before.json> <after.json>";
+
+const DEFAULT_TOP_K = 10;
+
+/** How many of each kind of change to list in the human-readable output. */
+const LISTED_CHANGES = 20;
+
+interface Args {
+  readonly before: string;
+  readonly after: string;
+  readonly json: boolean;
+  readonly queries: string | undefined;
+  readonly options: Search.SearchOptions;
+}
+
+interface Report {
+  readonly chunks: DbDiff.ChunkDiff;
+  readonly queries: readonly DbDiff.ResultMovement[];
+}
+
+async function main(): Promise<void> {
+  const argsResult = parseCliArgs(process.argv.slice(2));
+
+  if (Result.isError(argsResult)) {
+    console.error(argsResult.error);
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const args = argsResult.value;
+
+  const beforeResult = loadChunkDatabase(args.before);
+
+  if (Result.isError(beforeResult)) {
+    console.error(beforeResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const afterResult = loadChunkDatabase(args.after);
+
+  if (Result.isError(afterResult)) {
+    console.error(afterResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const before = beforeResult.value;
+  const after = afterResult.value;
+  const matching = DbDiff.diffChunks(before.chunks, after.chunks);
+
+  let queries: DbDiff.ResultMovement[] = [];
+  if (args.queries !== undefined) {
+    const queriesResult = readQueryFile(args.queries);
+
+    if (Result.isError(queriesResult)) {
+      console.error(queriesResult.error);
+      process.exitCode = 1;
+      return;
+    }
+
+    // Results from a database embedded some other way wouldn't mean anything.
+    for (const [name, db] of [
+      [args.before, before],
+      [args.after, after],
+    ] as const) {
+      const compatibilityResult = ChunkDb.checkCompatibility(db);
+
+      if (Result.isError(compatibilityResult)) {
+        console.error(`${name}: ${compatibilityResult.error}`);
+        process.exitCode = 1;
+        return;
+      }
+    }
+
+    const showPipelineProgress = false;
+    const pipeline = await Embedding.getPipeline(showPipelineProgress);
+
+    const movementResult = await compareQueries(
+      pipeline,
+      before,
+      after,
+      matching,
+      queriesResult.value,
+      args.options,
+    );
+
+    if (Result.isError(movementResult)) {
+      console.error(movementResult.error);
+      process.exitCode = 1;
+      return;
+    }
+
+    queries = movementResult.value;
+  }
+
+  const report: Report = { chunks: matching.diff, queries };
+
+  if (args.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+}
+
+function parseCliArgs(argv: readonly string[]): Result.Result<Args, string> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: [...argv],
+      options: {
+        json: { type: "boolean", default: false },
+        queries: { type: "string" },
+        mode: { type: "string", default: "hybrid" },
+        "top-k": { type: "string" },
+      },
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    return Result.error(`${error}`);
+  }
+
+  const { values, positionals } = parsed;
+
+  if (positionals.length !== 2) {
+    return Result.error("Expected two databases");
+  }
+
+  const mode = Search.SearchModeSchema.safeParse(values.mode);
+  if (!mode.success) {
+    return Result.error(`Invalid search mode: ${values.mode}`);
+  }
+
+  const k =
+    values["top-k"] === undefined ? DEFAULT_TOP_K : Number(values["top-k"]);
+
+  if (!Number.isInteger(k) || k < 1) {
+    return Result.error("--top-k should be a positive integer");
+  }
+
+  return Result.ok({
+    before: positionals[0]!,
+    after: positionals[1]!,
+    json: values.json,
+    queries: values.queries,
+    options: { mode: mode.data, cutoff: { type: "topK", k } },
+  });
+}
+
+async function compareQueries(
+  pipeline: FeatureExtractionPipeline,
+  before: ChunkDb.ChunkDatabase,
+  after: ChunkDb.ChunkDatabase,
+  matching: DbDiff.ChunkMatching,
+  queries: readonly string[],
+  options: Search.SearchOptions,
+): Promise<Result.Result<DbDiff.ResultMovement[], string>> {
+  const movements = [];
+
+  for (const query of queries) {
+    const beforeResults = await ChunkDb.search(
+      before,
+      pipeline,
+      query,
+      options,
+    );
+
+    if (Result.isError(beforeResults)) {
+      return Result.error(
+        `Search of the old database failed for "${query}": ${beforeResults.error}`,
+      );
+    }
+
+    const afterResults = await ChunkDb.search(after, pipeline, query, options);
+
+    if (Result.isError(afterResults)) {
+      return Result.error(
+        `Search of the new database failed for "${query}": ${afterResults.error}`,
+      );
+    }
+
+    movements.push(
+      DbDiff.compareResults(
+        query,
+        beforeResults.value.map((result) => result.chunk),
+        afterResults.value.map((result) => result.chunk),
+        matching,
+      ),
+    );
+  }
+
+  return Result.ok(movements);
+}
+
+function printReport(report: Report) {
+  const { unchanged, added, removed, modified } = report.chunks;
+
+  console.log(
+    `Unchanged: ${unchanged}, added: ${added.length}, removed: ${removed.length}, modified: ${modified.length}`,
+  );
+
+  printChanges("Added", added.map(formatChunkRef));
+  printChanges("Removed", removed.map(formatChunkRef));
+  printChanges(
+    "Modified",
+    modified.map(
+      (change) =>
+        `${formatChunkRef(change.after)} (${change.tokensBefore} -> ${change.tokensAfter} tokens)`,
+    ),
+  );
+
+  for (const movement of report.queries) {
+    console.log(`\nQuery: ${movement.query}`);
+
+    for (const result of movement.results) {
+      console.log(
+        `  ${String(result.rank).padStart(2)} ${formatMove(result)} ${formatChunkRef(result.chunk)}`,
+      );
+    }
+
+    for (const result of movement.dropped) {
+      console.log(`  -- (was ${result.rank}) ${formatChunkRef(result.chunk)}`);
+    }
+  }
+}
+
+function formatMove(result: DbDiff.MovedResult): string {
+  if (result.previousRank === null) return "(new)   ";
+
+  const change = result.previousRank - result.rank;
+  if (change === 0) return "(=)     ";
+
+  const arrow = change > 0 ? "↑" : "↓";
+  return `(${arrow}${Math.abs(change)})`.padEnd(8);
+}
+
+function formatChunkRef(ref: ChunkRef): string {
+  return `[${ref.work}] ${ref.title}: ${ref.headingPath.join(" > ")}`;
+}
+
+function printChanges(heading: string, lines: readonly string[]) {
+  if (lines.length === 0) return;
+
+  console.log(`\n${heading}:`);
+
+  for (const line of lines.slice(0, LISTED_CHANGES)) {
+    console.log(`  ${line}`);
+  }
+
+  if (lines.length > LISTED_CHANGES) {
+    console.log(`  ... and ${lines.length - LISTED_CHANGES} more`);
+  }
+}
+
+await main();
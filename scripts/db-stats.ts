@@ -0,0 +1,206 @@
+#!/usr/bin/env bun
+
+// Reports how the chunking turned out for a built chunk database: chunk counts,
+// token lengths, and chunks that look like mistakes.
+
+import process from "node:process";
+import { parseArgs } from "node:util";
+import * as Result from "../shared/result";
+import * as DbStats from "./lib/db-stats";
+import { loadChunkDatabase } from "./lib/load-chunk-database";
+
+export const USAGE =
+  "USAGE -- args: [--json] [--bucket-size <tokens>] [--near-duplicate-threshold <similarity>] <db.json>";
+
+/** How many of each kind of problem chunk to list in the table output. */
+const LISTED_PROBLEMS = 20;
+
+interface Args {
+  readonly db: string;
+  readonly json: boolean;
+  readonly options: DbStats.StatsOptions;
+}
+
+function main(): void {
+  const argsResult = parseCliArgs(process.argv.slice(2));
+
+  if (Result.isError(argsResult)) {
+    console.error(argsResult.error);
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const args = argsResult.value;
+
+  const dbResult = loadChunkDatabase(args.db);
+
+  if (Result.isError(dbResult)) {
+    console.error(dbResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const statsResult = DbStats.computeStats(dbResult.value, args.options);
+
+  if (Result.isError(statsResult)) {
+    console.error(statsResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(statsResult.value, null, 2));
+  } else {
+    printTables(statsResult.value);
+  }
+}
+
+function parseCliArgs(argv: readonly string[]): Result.Result<Args, string> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: [...argv],
+      options: {
+        json: { type: "boolean", default: false },
+        "bucket-size": { type: "string" },
+        "near-duplicate-threshold": { type: "string" },
+      },
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    return Result.error(`${error}`);
+  }
+
+  const { values, positionals } = parsed;
+
+  if (positionals.length !== 1) {
+    return Result.error("Expected a database");
+  }
+
+  const defaults = DbStats.DEFAULT_STATS_OPTIONS;
+
+  const bucketSize =
+    values["bucket-size"] === undefined
+      ? defaults.bucketSize
+      : Number(values["bucket-size"]);
+
+  if (!Number.isInteger(bucketSize) || bucketSize < 1) {
+    return Result.error("--bucket-size should be a positive integer");
+  }
+
+  const nearDuplicateThreshold =
+    values["near-duplicate-threshold"] === undefined
+      ? defaults.nearDuplicateThreshold
+      : Number(values["near-duplicate-threshold"]);
+
+  if (
+    Number.isNaN(nearDuplicateThreshold) ||
+    nearDuplicateThreshold < -1 ||
+    nearDuplicateThreshold > 1
+  ) {
+    return Result.error(
+      "--near-duplicate-threshold should be a number from -1 to 1",
+    );
+  }
+
+  return Result.ok({
+    db: positionals[0]!,
+    json: values.json,
+    options: { bucketSize, nearDuplicateThreshold },
+  });
+}
+
+function printTables(stats: DbStats.DbStats) {
+  console.log(`Chunks: ${stats.chunkCount}\n`);
+
+  printTable(
+    ["Work", "Title", "Chunks"],
+    stats.works.flatMap((work) => [
+      [work.work, "", String(work.chunkCount)],
+      ...work.titles.map((title) => [
+        "",
+        title.title,
+        String(title.chunkCount),
+      ]),
+    ]),
+  );
+
+  const { tokens } = stats;
+  console.log(
+    `\nTokens: min ${tokens.min}, median ${tokens.median}, mean ${tokens.mean.toFixed(1)}, max ${tokens.max}`,
+  );
+  console.log(
+    `Over the model's ${tokens.modelMaxTokens} token window: ${tokens.overModelMaxTokens}\n`,
+  );
+
+  const largestBucket = Math.max(...tokens.histogram.map((b) => b.count));
+  printTable(
+    ["Tokens", "Chunks", ""],
+    tokens.histogram.map((bucket) => [
+      `${bucket.from}-${bucket.to - 1}`,
+      String(bucket.count),
+      "#".repeat(Math.ceil((bucket.count / largestBucket) * 40)),
+    ]),
+  );
+
+  printProblems(
+    "Chunks with an empty heading path",
+    stats.emptyHeadingPath.map(formatChunkRef),
+  );
+  printProblems(
+    "Exact duplicates",
+    stats.exactDuplicates.map((group) =>
+      group.map(formatChunkRef).join("\n    = "),
+    ),
+  );
+  printProblems(
+    `Near duplicates (similarity >= ${stats.nearDuplicateThreshold})`,
+    stats.nearDuplicates.map(
+      (pair) =>
+        `${pair.similarity.toFixed(3)} ${formatChunkRef(pair.a)}\n    ~ ${formatChunkRef(pair.b)}`,
+    ),
+  );
+}
+
+function formatChunkRef(ref: DbStats.ChunkRef): string {
+  const headingPath =
+    ref.headingPath.length === 0
+      ? "(no headings)"
+      : ref.headingPath.join(" > ");
+
+  return `[${ref.work}] ${ref.title}: ${headingPath}`;
+}
+
+function printProblems(heading: string, lines: readonly string[]) {
+  console.log(`\n${heading}: ${lines.length}`);
+
+  for (const line of lines.slice(0, LISTED_PROBLEMS)) {
+    console.log(`  ${line}`);
+  }
+
+  if (lines.length > LISTED_PROBLEMS) {
+    console.log(`  ... and ${lines.length - LISTED_PROBLEMS} more`);
+  }
+}
+
+/** Left-aligned columns, padded to the widest cell. */
+function printTable(header: readonly string[], rows: readonly string[][]) {
+  const widths = header.map((cell, i) =>
+    Math.max(cell.length, ...rows.map((row) => row[i]!.length)),
+  );
+  const format = (row: readonly string[]) =>
+    row
+      .map((cell, i) => cell.padEnd(widths[i]!))
+      .join("  ")
+      .trimEnd();
+
+  console.log(format(header));
+  console.log(format(widths.map((width) => "-".repeat(width))));
+  for (const row of rows) {
+    console.log(format(row));
+  }
+}
+
+main();
@@ -1,10 +1,12 @@
 #!/usr/bin/env bun
 
 import * as Fs from "node:fs";
+import * as Path from "node:path";
 import process from "node:process";
 import { parseArgs } from "node:util";
 import remarkDirective from "remark-directive";
 import remarkFrontmatter from "remark-frontmatter";
+import remarkGfm from "remark-gfm";
 import remarkParse from "remark-parse";
 import { unified } from "unified";
 import * as Embedding from "../shared/embeddings";
@@ -12,21 +14,22 @@ import * as Result from "../shared/result";
 import * as ChunkDb from "./lib/chunk-database";
 import type { FinalizedChunk } from "./lib/finalized-chunk";
 import * as Config from "./lib/config";
+import { loadChunkDatabase } from "./lib/load-chunk-database";
+import { processHtmlFile } from "./lib/process-html-file";
 import { processMarkdownFile } from "./lib/process-markdown-file";
-import * as Tokens from "./lib/tokens";
-import type { Work } from "./lib/work";
+import { processNotebookFile } from "./lib/process-notebook-file";
+import { processPythonFile } from "./lib/process-python-file";
+import { processRstFile } from "./lib/process-rst-file";
+import { processTextFile } from "./lib/process-text-file";
 
-/**
- * We can use the exact number here since our splitting procedure is much
- * simpler than for the markdown files.
- */
-const TEXT_MAX_TOKENS = 256;
-const TEXT_OVERLAP_TOKENS = 85;
-
-export const USAGE = "USAGE -- args: <config.json>";
+export const USAGE = "USAGE -- args: [--previous <db.json>] <config.json>";
 
 async function main(): Promise<void> {
-  const { positionals } = parseArgs({
+  const { values, positionals } = parseArgs({
+    options: {
+      // A previous build of the database to copy unchanged embeddings from
+      previous: { type: "string" },
+    },
     allowPositionals: true,
     strict: true,
   });
@@ -41,6 +44,19 @@ async function main(): Promise<void> {
 
   const args = argsResult.value;
 
+  let previousDb;
+  if (values.previous !== undefined) {
+    const previousDbResult = loadChunkDatabase(values.previous);
+
+    if (Result.isError(previousDbResult)) {
+      console.error(previousDbResult.error);
+      process.exitCode = 1;
+      return;
+    }
+
+    previousDb = previousDbResult.value;
+  }
+
   const showPipelineProgress = false;
   const featureExtractionPipeline =
     await Embedding.getPipeline(showPipelineProgress);
@@ -48,26 +64,71 @@ async function main(): Promise<void> {
   const markdownProcessor = unified()
     .use(remarkParse)
     .use(remarkDirective)
-    .use(remarkFrontmatter);
+    .use(remarkFrontmatter)
+    .use(remarkGfm);
 
-  const allChunks = [];
+  const allChunks: Readonly<FinalizedChunk>[] = [];
+  const seenIds = new Set<string>();
+  const chunking: ChunkDb.InputChunking[] = [];
 
   for (const input of args.input) {
     console.log(`Processing: ${input.file}`);
 
+    const profile = Config.inputChunkingProfile(args, input);
+    chunking.push({ file: input.file, profile });
+
     let chunks;
     if (input.type === "markdown") {
-      chunks = await processMarkdownFile(markdownProcessor, input);
+      chunks = await processMarkdownFile(markdownProcessor, input, profile);
+    } else if (input.type === "ipynb") {
+      const notebookResult = await processNotebookFile(
+        markdownProcessor,
+        input,
+        profile,
+      );
+
+      if (Result.isError(notebookResult)) {
+        console.error(notebookResult.error);
+        process.exitCode = 1;
+        return;
+      }
+
+      chunks = notebookResult.value;
+    } else if (input.type === "rst") {
+      chunks = await processRstFile(input, profile);
+    } else if (input.type === "html") {
+      chunks = await processHtmlFile(input, profile);
+    } else if (input.type === "python") {
+      chunks = await processPythonFile(input, profile);
     } else {
-      chunks = await processDocument(input);
+      chunks = await processTextFile(input, profile);
+    }
+
+    // Chunk IDs are content-addressed, so the same ID means the exact same
+    // text from the same place. Those would just show up twice in the results.
+    for (const chunk of chunks) {
+      if (seenIds.has(chunk.id)) {
+        console.log(
+          `Skipping duplicate chunk: ${chunk.headingPath.join(" > ")}`,
+        );
+        continue;
+      }
+
+      seenIds.add(chunk.id);
+      allChunks.push(chunk);
     }
-    allChunks.push(...chunks);
   }
 
   console.log(`Total chunks: ${allChunks.length}`);
 
   console.log("Creating DB");
-  const dbResult = await ChunkDb.create(featureExtractionPipeline, allChunks);
+  const dbResult = await ChunkDb.create(
+    featureExtractionPipeline,
+    args.works,
+    allChunks,
+    chunking,
+    previousDb,
+  );
 
   if (Result.isError(dbResult)) {
     const message = `There was an error while creating DB: ${dbResult.error}\n`;
@@ -76,148 +137,56 @@ async function main(): Promise<void> {
     return;
   }
 
-  const serializeResult = ChunkDb.serializeChunkDatabase(dbResult.value);
+  const writeResult = writeDatabase(dbResult.value, args);
 
-  if (Result.isError(serializeResult)) {
-    const message = `There was an error while serializing DB: ${serializeResult.error}\n`;
+  if (Result.isError(writeResult)) {
+    const message = `There was an error while serializing DB: ${writeResult.error}\n`;
     Fs.writeFileSync(process.stderr.fd, message);
     process.exitCode = 1;
     return;
   }
 
-  Fs.writeFileSync(args.output, serializeResult.value);
+  printReuseSummary(ChunkDb.summarizeReuse(allChunks, previousDb));
 }
 
-// Basic document processing
-
-async function processDocument(
-  input: Config.Input,
-): Promise<Readonly<FinalizedChunk>[]> {
-  const rawText = Fs.readFileSync(input.file, "utf8");
-
-  const texts = splitText(rawText);
-
-  const chunks: FinalizedChunk[] = [];
-  let current = emptyBasicChunk();
-  for (const text of texts) {
-    const newTokens = await Tokens.countTokens(text);
-
-    // Adding this chunk would put us over the limit
-    if (current.totalTokens + newTokens >= TEXT_MAX_TOKENS) {
-      const finalized = finalizeBasicChunk(current, input.work, input.title);
-      chunks.push(finalized);
+function writeDatabase(
+  db: ChunkDb.ChunkDatabase,
+  args: Config.Config,
+): Result.Result<void, string> {
+  if (args.embeddingsFormat === "json") {
+    const serializeResult = ChunkDb.serializeChunkDatabase(db);
 
-      // Start the next chunk with some overlap from the end of the current
-      // chunk.
-      current = getOverlapChunks(current, TEXT_OVERLAP_TOKENS);
+    if (Result.isError(serializeResult)) {
+      return serializeResult;
     }
 
-    // We can safely add this chunk.
-    current.chunks.push(text);
-    current.tokenCounts.push(newTokens);
-    current.totalTokens += newTokens;
+    Fs.writeFileSync(args.output, serializeResult.value);
+    return Result.ok(undefined);
   }
 
-  return chunks;
-}
-
-type BasicChunk = {
-  chunks: string[];
-  /**
-   * Track tokens per chunk so that it's easier to select overlapping chunks
-   * that fit the size we are looking for.
-   */
-  tokenCounts: number[];
-  totalTokens: number;
-};
-
-function emptyBasicChunk(): BasicChunk {
-  return { chunks: [], tokenCounts: [], totalTokens: 0 };
-}
+  const embeddingsOutput = Config.embeddingsOutputPath(args.output);
+  const serializeResult = ChunkDb.serializeChunkDatabaseWithBinaryEmbeddings(
+    db,
+    Path.basename(embeddingsOutput),
+    args.embeddingsFormat,
+  );
 
-/**
- * Extract the last N segments from a chunk to use as overlap for the next
- * chunk.
- *
- * Works backwards from the end until we get about `targetOverlap` tokens.
- */
-function getOverlapChunks(
-  basicChunk: BasicChunk,
-  targetOverlap: number,
-): BasicChunk {
-  let accumulatedTokens = 0;
-  const overlapChunks: string[] = [];
-  const overlapTokenCounts: number[] = [];
-
-  // Work backwards from the end
-  for (let i = basicChunk.chunks.length - 1; i >= 0; i--) {
-    const newTokens = basicChunk.tokenCounts[i];
-
-    // Stop if we've gotten enough, but make sure to take at least one segment.
-    if (
-      accumulatedTokens > 0 &&
-      accumulatedTokens + newTokens > targetOverlap
-    ) {
-      break;
-    }
-
-    overlapChunks.unshift(basicChunk.chunks[i]);
-    overlapTokenCounts.unshift(newTokens);
-    accumulatedTokens += newTokens;
+  if (Result.isError(serializeResult)) {
+    return serializeResult;
   }
 
-  return {
-    chunks: overlapChunks,
-    tokenCounts: overlapTokenCounts,
-    totalTokens: accumulatedTokens,
-  };
-}
-
-/**
- * Raw text and markdown text will be the same for these.
- *
- * We use `""` as the joiner here, so don't forget to use the splitter that
- * keeps the newlines tacked onto the end of the raw text.
- */
-function finalizeBasicChunk(
-  basicChunk: BasicChunk,
-  work: Work,
-  title: string,
-): FinalizedChunk {
-  const text = basicChunk.chunks.join("");
-
-  return {
-    // In a basic chunk, we don't bother parsing out headings, so we won't have
-    // a good set of breadcrumbs to use as the heading path. Instead, just show
-    // the title of the document that the chunk is from.
-    headingPath: [title],
-    totalTokens: basicChunk.totalTokens,
-    rawText: text,
-    markdownText: text,
-    work,
-    title,
-    id: crypto.randomUUID(),
-  };
-}
-
-function splitText(text: string): string[] {
-  return splitWithSeparators(text, /(\n\n+)/);
+  Fs.writeFileSync(args.output, serializeResult.value.json);
+  Fs.writeFileSync(
+    embeddingsOutput,
+    new Uint8Array(serializeResult.value.embeddings),
+  );
+  return Result.ok(undefined);
 }
 
-/** DON'T FORGET THE CAPTURING GROUP IN THE REGEX. */
-function splitWithSeparators(text: string, separator: RegExp): string[] {
-  const parts = text.split(separator);
-  const result = [];
-
-  for (let i = 0; i < parts.length; i += 2) {
-    const thisText = parts[i];
-    const sep = parts[i + 1] || "";
-    if (thisText) {
-      result.push(thisText + sep);
-    }
-  }
-
-  return result;
+function printReuseSummary(summary: ChunkDb.ReuseSummary) {
+  console.log(
+    `Chunks added: ${summary.added}, removed: ${summary.removed}, reused: ${summary.reused}`,
+  );
 }
 
 await main();
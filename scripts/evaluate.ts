@@ -0,0 +1,296 @@
+#!/usr/bin/env bun
+
+// Runs a golden set of queries against a chunk database and reports how well
+// the search finds the chunks that each query expects.
+//
+// The query file looks like this:
+//
+//   {
+//     "queries": [
+//       {
+//         "query": "Should I use a tuple or a list?",
+//         "relevant": [
+//           { "headingPath": ["Data Structures", "Tuples and Sequences"] },
+//           { "text": "tuples are immutable" }
+//         ]
+//       }
+//     ]
+//   }
+//
+// The report only depends on the database, the queries, and the options, so
+// reports from two runs can be diffed to see what a change did.
+
+import type { FeatureExtractionPipeline } from "@huggingface/transformers";
+import * as Fs from "node:fs";
+import process from "node:process";
+import { parseArgs } from "node:util";
+import * as Embedding from "../shared/embeddings";
+import * as Result from "../shared/result";
+import * as Search from "../shared/search";
+import * as ChunkDb from "./lib/chunk-database";
+import * as Evaluation from "./lib/evaluation";
+import { loadChunkDatabase } from "./lib/load-chunk-database";
+
+export const USAGE =
+  "USAGE -- args: [--mode <semantic|lexical|hybrid>] [--recall-k <k,...>] [--ndcg-k <k>] [--knee] [--output <report.json>] <db.json> <queries.json>";
+
+const DEFAULT_RECALL_KS = [1, 3, 5, 10];
+const DEFAULT_NDCG_K = 10;
+
+/** How many result headings to keep per query in the report. */
+const REPORTED_RESULTS = 5;
+
+interface Args {
+  readonly db: string;
+  readonly queries: string;
+  readonly mode: Search.SearchMode;
+  readonly recallKs: readonly number[];
+  readonly ndcgK: number;
+  /** Also cut the results at the knee point, like the app does. */
+  readonly knee: boolean;
+  readonly output: string | undefined;
+}
+
+async function main(): Promise<void> {
+  const argsResult = parseCliArgs(process.argv.slice(2));
+
+  if (Result.isError(argsResult)) {
+    console.error(argsResult.error);
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const args = argsResult.value;
+
+  const dbResult = loadChunkDatabase(args.db);
+
+  if (Result.isError(dbResult)) {
+    console.error(dbResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  // Scores from a database embedded some other way would be meaningless.
+  const compatibilityResult = ChunkDb.checkCompatibility(dbResult.value);
+
+  if (Result.isError(compatibilityResult)) {
+    console.error(compatibilityResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const queriesResult = readQueries(args.queries);
+
+  if (Result.isError(queriesResult)) {
+    console.error(queriesResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const showPipelineProgress = false;
+  const pipeline = await Embedding.getPipeline(showPipelineProgress);
+
+  const reportResult = await evaluate(
+    compatibilityResult.value,
+    pipeline,
+    queriesResult.value,
+    args,
+  );
+
+  if (Result.isError(reportResult)) {
+    console.error(reportResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const report = reportResult.value;
+  printSummary(report);
+
+  if (args.output !== undefined) {
+    Fs.writeFileSync(args.output, JSON.stringify(report, null, 2) + "\n");
+    console.log(`Wrote report to ${args.output}`);
+  }
+}
+
+function parseCliArgs(argv: readonly string[]): Result.Result<Args, string> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: [...argv],
+      options: {
+        mode: { type: "string", default: "hybrid" },
+        "recall-k": { type: "string" },
+        "ndcg-k": { type: "string" },
+        knee: { type: "boolean", default: false },
+        output: { type: "string" },
+      },
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    return Result.error(`${error}`);
+  }
+
+  const { values, positionals } = parsed;
+
+  if (positionals.length !== 2) {
+    return Result.error("Expected a database and a query file");
+  }
+
+  const mode = Search.SearchModeSchema.safeParse(values.mode);
+  if (!mode.success) {
+    return Result.error(`Invalid search mode: ${values.mode}`);
+  }
+
+  const recallKs =
+    values["recall-k"] === undefined
+      ? DEFAULT_RECALL_KS
+      : values["recall-k"].split(",").map(Number);
+  const ndcgK =
+    values["ndcg-k"] === undefined ? DEFAULT_NDCG_K : Number(values["ndcg-k"]);
+
+  if (![...recallKs, ndcgK].every((k) => Number.isInteger(k) && k > 0)) {
+    return Result.error("k values should be positive integers");
+  }
+
+  return Result.ok({
+    db: positionals[0]!,
+    queries: positionals[1]!,
+    mode: mode.data,
+    recallKs,
+    ndcgK,
+    knee: values.knee,
+    output: values.output,
+  });
+}
+
+function readQueries(
+  path: string,
+): Result.Result<Evaluation.GoldenQuerySet, string> {
+  let json;
+  try {
+    json = JSON.parse(Fs.readFileSync(path, "utf8"));
+  } catch (error) {
+    return Result.error(`Failed to read queries ${path}: ${error}`);
+  }
+
+  const result = Evaluation.GoldenQuerySetSchema.safeParse(json);
+
+  if (!result.success) {
+    return Result.error(`Invalid queries ${path}: ${result.error}`);
+  }
+
+  return Result.ok(result.data);
+}
+
+interface QueryReport {
+  readonly query: string;
+  readonly metrics: Evaluation.QueryMetrics;
+  readonly resultCount: number;
+  /** Heading paths of the top results. */
+  readonly topResults: readonly string[];
+}
+
+interface Report {
+  readonly db: {
+    readonly embeddingModel: string;
+    readonly createdAt: string;
+    readonly chunkCount: number;
+  };
+  readonly options: {
+    readonly mode: Search.SearchMode;
+    readonly recallKs: readonly number[];
+    readonly ndcgK: number;
+    readonly knee: boolean;
+  };
+  readonly summary: Evaluation.QueryMetrics;
+  readonly queries: readonly QueryReport[];
+}
+
+async function evaluate(
+  db: ChunkDb.ChunkDatabase,
+  pipeline: FeatureExtractionPipeline,
+  goldenQueries: Evaluation.GoldenQuerySet,
+  args: Args,
+): Promise<Result.Result<Report, string>> {
+  // The metrics only look this far down the results.
+  const topK: Search.Cutoff = {
+    type: "topK",
+    k: Math.max(...args.recallKs, args.ndcgK),
+  };
+  const cutoff: Search.Cutoff = args.knee
+    ? { type: "all", cutoffs: [Search.KNEE_CUTOFF, topK] }
+    : topK;
+
+  const queries: QueryReport[] = [];
+
+  for (const goldenQuery of goldenQueries.queries) {
+    const searchResult = await ChunkDb.search(db, pipeline, goldenQuery.query, {
+      mode: args.mode,
+      cutoff,
+    });
+
+    if (Result.isError(searchResult)) {
+      return Result.error(
+        `Search failed for "${goldenQuery.query}": ${searchResult.error}`,
+      );
+    }
+
+    const results = searchResult.value.map((result) => result.chunk);
+
+    queries.push({
+      query: goldenQuery.query,
+      metrics: Evaluation.scoreRanking(
+        results,
+        goldenQuery.relevant,
+        args.recallKs,
+        args.ndcgK,
+      ),
+      resultCount: results.length,
+      topResults: results
+        .slice(0, REPORTED_RESULTS)
+        .map((chunk) => chunk.headingPath.join(" > ")),
+    });
+  }
+
+  return Result.ok({
+    db: {
+      embeddingModel: db.metadata.embeddingModel,
+      createdAt: db.metadata.createdAt,
+      chunkCount: db.chunks.length,
+    },
+    options: {
+      mode: args.mode,
+      recallKs: args.recallKs,
+      ndcgK: args.ndcgK,
+      knee: args.knee,
+    },
+    summary: Evaluation.meanMetrics(queries.map((query) => query.metrics)),
+    queries,
+  });
+}
+
+function printSummary(report: Report) {
+  const format = (x: number) => x.toFixed(3);
+
+  for (const query of report.queries) {
+    const { recall, reciprocalRank, ndcg } = query.metrics;
+    const recalls = report.options.recallKs
+      .map((k) => `R@${k} ${format(recall[k]!)}`)
+      .join("  ");
+    console.log(
+      `${recalls}  RR ${format(reciprocalRank)}  nDCG@${report.options.ndcgK} ${format(ndcg)}  ${query.query}`,
+    );
+  }
+
+  const { recall, reciprocalRank, ndcg } = report.summary;
+  console.log(`\nQueries: ${report.queries.length}`);
+  for (const k of report.options.recallKs) {
+    console.log(`Mean recall@${k}: ${format(recall[k]!)}`);
+  }
+  console.log(`MRR: ${format(reciprocalRank)}`);
+  console.log(`Mean nDCG@${report.options.ndcgK}: ${format(ndcg)}`);
+}
+
+await main();
@@ -0,0 +1,133 @@
+/* These are used in the browser and in node. */
+
+/**
+ * @module bm25
+ * A small BM25 inverted index for lexical search over chunk text.
+ *
+ * Embeddings are good at "what is this about", but not so good at exact
+ * identifiers like `enumerate`, `defaultdict`, or `ValueError`. BM25 scores
+ * chunks by how often the query terms show up in them, weighted by how rare
+ * those terms are overall.
+ *
+ * See https://en.wikipedia.org/wiki/Okapi_BM25
+ */
+
+import * as Zod from "zod";
+
+export interface Index {
+  /** Term frequency saturation. */
+  readonly k1: number;
+  /** How much to normalize by document length, from 0 (none) to 1 (full). */
+  readonly b: number;
+  /** Number of terms in each document. */
+  readonly documentLengths: readonly number[];
+  /**
+   * For each term, the documents it appears in as a flat list of alternating
+   * document index and term frequency. (Flat, since it keeps the JSON small.)
+   *
+   * A `Map`, so that terms like `constructor` or `__proto__` are just keys.
+   */
+  readonly postings: ReadonlyMap<string, readonly number[]>;
+}
+
+/**
+ * An `Index` as JSON. The postings are a list of `[term, postings]` entries
+ * rather than an object, since parsing an object would drop `__proto__`.
+ */
+export const SerializedIndexSchema = Zod.object({
+  k1: Zod.number().min(0),
+  b: Zod.number().min(0).max(1),
+  documentLengths: Zod.array(Zod.int().min(0)).readonly(),
+  postings: Zod.array(
+    Zod.tuple([Zod.string(), Zod.array(Zod.int().min(0)).readonly()]),
+  ).readonly(),
+}).readonly();
+
+export type SerializedIndex = Zod.infer<typeof SerializedIndexSchema>;
+
+export function serializeIndex(index: Index): SerializedIndex {
+  return { ...index, postings: [...index.postings] };
+}
+
+export function indexFromSerialized(serialized: SerializedIndex): Index {
+  return { ...serialized, postings: new Map(serialized.postings) };
+}
+
+/**
+ * Split text into lowercase terms.
+ *
+ * Terms are runs of letters, numbers, and underscores, so `os.path.join`
+ * gives `os`, `path`, and `join`, but `snake_case_name` stays together.
+ */
+export function tokenize(text: string): string[] {
+  return Array.from(
+    text.toLowerCase().matchAll(/[\p{L}\p{N}_]+/gu),
+    (m) => m[0],
+  );
+}
+
+export function createIndex(
+  documents: readonly string[],
+  k1 = 1.2,
+  b = 0.75,
+): Index {
+  const documentLengths: number[] = [];
+  const postings = new Map<string, number[]>();
+
+  documents.forEach((document, documentIndex) => {
+    const terms = tokenize(document);
+    documentLengths.push(terms.length);
+
+    const termFrequencies = new Map<string, number>();
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+    }
+
+    for (const [term, frequency] of termFrequencies) {
+      if (!postings.has(term)) postings.set(term, []);
+      postings.get(term)!.push(documentIndex, frequency);
+    }
+  });
+
+  return { k1, b, documentLengths, postings };
+}
+
+/**
+ * Score every document in the index against the query. Documents that don't
+ * contain any of the query terms score 0.
+ */
+export function scoreQuery(index: Index, query: string): Float32Array {
+  const documentCount = index.documentLengths.length;
+  const scores = new Float32Array(documentCount);
+
+  if (documentCount === 0) return scores;
+
+  const averageLength =
+    index.documentLengths.reduce((sum, length) => sum + length, 0) /
+    documentCount;
+
+  // Repeating a term in the query shouldn't count it twice.
+  const queryTerms = new Set(tokenize(query));
+
+  for (const term of queryTerms) {
+    const posting = index.postings.get(term);
+    if (posting === undefined) continue;
+
+    const documentFrequency = posting.length / 2;
+    const idf = Math.log(
+      1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5),
+    );
+
+    for (let i = 0; i < posting.length; i += 2) {
+      const documentIndex = posting[i]!;
+      const frequency = posting[i + 1]!;
+      const lengthRatio = index.documentLengths[documentIndex]! / averageLength;
+
+      scores[documentIndex] +=
+        (idf * frequency * (index.k1 + 1)) /
+        (frequency + index.k1 * (1 - index.b + index.b * lengthRatio));
+    }
+  }
+
+  return scores;
+}
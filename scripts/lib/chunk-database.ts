@@ -1,39 +1,129 @@
-import {
-  FeatureExtractionPipeline,
-  type Tensor,
-} from "@huggingface/transformers";
+import { FeatureExtractionPipeline, Tensor } from "@huggingface/transformers";
 import type { FinalizedChunk } from "./finalized-chunk";
 import { FinalizedChunkSchema } from "./finalized-chunk";
+import * as Bm25 from "./bm25";
+import {
+  type ChunkingProfile,
+  ChunkingProfileSchema,
+} from "./chunking-profile";
+import { type Work, WorkSchema } from "./work";
+import { CHUNK_DATABASE_FORMAT_VERSION } from "../../shared/constants";
 import * as Embeddings from "../../shared/embeddings";
 import * as Result from "../../shared/result";
-import * as Constant from "../../shared/constants";
+import type { SearchFilter, SearchOptions } from "../../shared/search";
 import * as Zod from "zod";
 
 export interface ChunkDatabase {
+  /**
+   * The format version of the file this database was loaded from, before any
+   * migrations. Newly created databases use the current version.
+   */
+  readonly formatVersion: number;
+  /** The works that the chunks come from. */
+  readonly works: readonly Work[];
   readonly chunks: readonly FinalizedChunk[];
   readonly embeddings: Tensor;
-  readonly metadata: {
-    embeddingModel: string;
-    dimension: number;
-    createdAt: string;
+  /** BM25 index of the chunks' `rawText`, for lexical search. */
+  readonly lexicalIndex: Bm25.Index;
+  readonly metadata: Metadata;
+}
+
+interface Metadata {
+  embeddingModel: string;
+  dimension: number;
+  createdAt: string;
+  /** The rest of the settings that the embeddings were made with. */
+  pipeline: {
+    dtype: string;
+    pooling: string;
+    normalize: boolean;
   };
+  /** The chunking profile of each input. Unknown for older databases. */
+  chunking?: readonly InputChunking[] | undefined;
 }
 
+/** The chunking profile an input file was chunked with. */
+export interface InputChunking {
+  readonly file: string;
+  readonly profile: ChunkingProfile;
+}
+
+const MetadataSchema = Zod.object({
+  embeddingModel: Zod.string(),
+  dimension: Zod.number(),
+  createdAt: Zod.string(),
+  pipeline: Zod.object({
+    dtype: Zod.string(),
+    pooling: Zod.string(),
+    normalize: Zod.boolean(),
+  }),
+  chunking: Zod.array(
+    Zod.object({ file: Zod.string(), profile: ChunkingProfileSchema }),
+  ).optional(),
+}) satisfies Zod.ZodType<Metadata>;
+
+/**
+ * The embeddings are either stored inline as a JSON number array, or in a
+ * separate binary file that the JSON only references.
+ */
 interface SerializableChunkDatabase {
+  readonly formatVersion: number;
+  /** The works that the chunks come from. */
+  readonly works: readonly Work[];
   readonly chunks: readonly FinalizedChunk[];
-  readonly embeddings: Embeddings.TensorData;
-  readonly metadata: {
-    embeddingModel: string;
-    dimension: number;
-    createdAt: string;
-  };
+  readonly embeddings: Embeddings.TensorData | Embeddings.BinaryTensorReference;
+  readonly lexicalIndex: Bm25.SerializedIndex;
+  readonly metadata: Metadata;
+}
+
+/** A serialized database whose embeddings live in a separate binary file. */
+export interface SerializedChunkDatabaseWithBinaryEmbeddings {
+  /** The chunks and metadata, with a reference to the binary file. */
+  readonly json: string;
+  /** The contents of the binary embeddings file. */
+  readonly embeddings: ArrayBuffer;
+}
+
+function tensorFromSerializedEmbeddings(
+  embeddings: SerializableChunkDatabase["embeddings"],
+  embeddingsBinary: ArrayBuffer | undefined,
+): Result.Result<Tensor, string> {
+  if (embeddings.dataType !== "binary") {
+    return Embeddings.tensorFromTensorData(embeddings);
+  }
+
+  if (embeddingsBinary === undefined) {
+    return Result.error(
+      `embeddings are stored in ${embeddings.file}, but no binary data was given`,
+    );
+  }
+
+  const tensorResult = Embeddings.decodeTensorBinary(embeddingsBinary);
+
+  if (Result.isError(tensorResult)) {
+    return tensorResult;
+  }
+
+  const [rows, columns] = embeddings.dimensions;
+  const [actualRows, actualColumns] = tensorResult.value.dims;
+
+  if (rows !== actualRows || columns !== actualColumns) {
+    return Result.error(
+      `expected ${rows}x${columns} embeddings in ${embeddings.file}, but got ${actualRows}x${actualColumns}`,
+    );
+  }
+
+  return tensorResult;
 }
 
 function chunkDatabaseFromSerializableChunkDatabase(
   serializableChunkDatabase: SerializableChunkDatabase,
+  embeddingsBinary: ArrayBuffer | undefined,
+  formatVersion: number,
 ): Result.Result<ChunkDatabase, string> {
-  const tensorResult = Embeddings.tensorFromTensorData(
+  const tensorResult = tensorFromSerializedEmbeddings(
     serializableChunkDatabase.embeddings,
+    embeddingsBinary,
   );
 
   if (Result.isError(tensorResult)) {
@@ -41,8 +131,13 @@ function chunkDatabaseFromSerializableChunkDatabase(
   }
 
   const chunkDb = {
+    formatVersion,
+    works: serializableChunkDatabase.works,
     chunks: serializableChunkDatabase.chunks,
     embeddings: tensorResult.value,
+    lexicalIndex: Bm25.indexFromSerialized(
+      serializableChunkDatabase.lexicalIndex,
+    ),
     metadata: serializableChunkDatabase.metadata,
   };
 
@@ -52,25 +147,311 @@ function chunkDatabaseFromSerializableChunkDatabase(
 // NOTE: you can have fields in this schema that aren't present in the interface
 // it satisfies so watch out.
 const SerializableChunkDatabaseSchema = Zod.object({
+  formatVersion: Zod.literal(CHUNK_DATABASE_FORMAT_VERSION),
+  works: Zod.array(WorkSchema),
   chunks: Zod.array(FinalizedChunkSchema),
-  embeddings: Embeddings.TensorDataSchema,
-  metadata: Zod.object({
-    embeddingModel: Zod.string(),
-    dimension: Zod.number(),
-    createdAt: Zod.string(),
+  embeddings: Zod.union([
+    Embeddings.TensorDataSchema,
+    Embeddings.BinaryTensorReferenceSchema,
+  ]),
+  lexicalIndex: Bm25.SerializedIndexSchema,
+  metadata: MetadataSchema,
+})
+  .readonly()
+  .refine(
+    (x) =>
+      x.chunks.every((chunk) => x.works.some((work) => work.id === chunk.work)),
+    { error: "every chunk's work should be in works" },
+  )
+  .refine((x) => x.lexicalIndex.documentLengths.length === x.chunks.length, {
+    error: "lexicalIndex should have one document per chunk",
+  }) satisfies Zod.ZodType<SerializableChunkDatabase>;
+
+// Migrations
+//
+// Each migration takes a parsed database JSON of one format version and
+// returns it in the shape of the next version. They work on the plain JSON
+// rather than on typed values, since the old shapes don't have types anymore.
+// The schema check happens once at the end, after all the migrations have run.
+
+type SerializedJson = Readonly<Record<string, unknown>>;
+
+type Migration = (db: SerializedJson) => SerializedJson;
+
+/**
+ * `MIGRATIONS[n]` upgrades a version `n` database to version `n + 1`, so there
+ * should be exactly `CHUNK_DATABASE_FORMAT_VERSION` of these.
+ */
+const MIGRATIONS: readonly Migration[] = [
+  // 0 -> 1: Files written before we tracked the format version. The shape is
+  // otherwise the same.
+  (db) => ({ ...db, formatVersion: 1 }),
+
+  // 1 -> 2: Record the pipeline settings. These were hard-coded before, so
+  // older databases were all embedded with the same ones.
+  (db) => ({
+    ...db,
+    formatVersion: 2,
+    metadata: {
+      ...(db.metadata as object),
+      pipeline: { dtype: "uint8", pooling: "mean", normalize: true },
+    },
   }),
-}).readonly() satisfies Zod.ZodType<SerializableChunkDatabase>;
 
+  // 2 -> 3: Store the works. Before this, the only works were the two books,
+  // and chunks referred to them by name.
+  (db) => ({ ...db, formatVersion: 3, works: LEGACY_WORKS }),
+
+  // 3 -> 4: Chunks can have a `sourceUrl`. It's optional, so older chunks just
+  // don't link anywhere.
+  (db) => ({ ...db, formatVersion: 4 }),
+
+  // 4 -> 5: Add the lexical index. We can build it from the chunks, so older
+  // databases get lexical search too.
+  (db) => {
+    const chunks = Array.isArray(db.chunks) ? db.chunks : [];
+    const texts = chunks.map((chunk) => String(chunk?.rawText ?? ""));
+
+    const index = Bm25.createIndex(texts);
+
+    return {
+      ...db,
+      formatVersion: 5,
+      lexicalIndex: { ...index, postings: Object.fromEntries(index.postings) },
+    };
+  },
+
+  // 5 -> 6: Chunks record the types of their blocks. Older chunks don't know
+  // them, but we can at least spot code blocks in the markdown.
+  (db) => {
+    const chunks = Array.isArray(db.chunks) ? db.chunks : [];
+
+    return {
+      ...db,
+      formatVersion: 6,
+      chunks: chunks.map((chunk) => ({
+        ...chunk,
+        blockTypes: FENCED_CODE.test(String(chunk?.markdownText ?? ""))
+          ? ["code"]
+          : [],
+      })),
+    };
+  },
+
+  // 6 -> 7: Chunks from notebooks can have `cellIndices`. Older databases
+  // didn't have notebooks, so there is nothing to fill in.
+  (db) => ({ ...db, formatVersion: 7 }),
+
+  // 7 -> 8: Chunks can have a `sourceRange`. It's optional, so older chunks
+  // just don't say where in the file they are.
+  (db) => ({ ...db, formatVersion: 8 }),
+
+  // 8 -> 9: Chunks can have an `overlapLength`. Older chunks had hardly any
+  // overlap, so leaving it out is close enough.
+  (db) => ({ ...db, formatVersion: 9 }),
+
+  // 9 -> 10: Record the chunking profile of each input. Older databases were
+  // all chunked with the defaults of the time, but those have changed since,
+  // so they just don't say.
+  (db) => ({ ...db, formatVersion: 10 }),
+
+  // 10 -> 11: The lexical index's postings are a list of entries, since
+  // parsing them as an object would drop the term `__proto__`. The parsed JSON
+  // still has it as an own property, so nothing is lost.
+  (db) => {
+    const index = (db.lexicalIndex ?? {}) as Record<string, unknown>;
+    const postings = (index.postings ?? {}) as Record<string, unknown>;
+
+    return {
+      ...db,
+      formatVersion: 11,
+      lexicalIndex: { ...index, postings: Object.entries(postings) },
+    };
+  },
+];
+
+/** The start of a fenced code block in markdown. */
+const FENCED_CODE = /^ {0,3}(```|~~~)/m;
+
+/** The works of databases from before the works were stored in them. */
+const LEGACY_WORKS: readonly Work[] = [
+  {
+    id: "Applied Python Programming",
+    name: "Applied Python Programming for Life Scientists",
+    baseUrl: "https://appliedpythonprogramming.com/",
+    license: "CC BY 4.0",
+    attribution: "Copyright 2025-2026 Ryan M. Moore",
+  },
+  {
+    id: "The Python Tutorial",
+    name: "The Python Tutorial",
+    baseUrl: "https://docs.python.org/3/tutorial/",
+    license:
+      "Python Software Foundation License Version 2 and Zero Clause BSD License",
+    attribution: "Copyright 2001 Python Software Foundation",
+  },
+];
+
+const FormatVersionSchema = Zod.object({
+  // Files from before the version field existed are version 0.
+  formatVersion: Zod.int().min(0).default(0),
+});
+
+/** The format version of a parsed chunk database JSON file. */
+export function readFormatVersion(x: object): Result.Result<number, string> {
+  const result = FormatVersionSchema.safeParse(x);
+
+  if (!result.success) {
+    return Result.error(
+      `Invalid chunk database format version: ${result.error}`,
+    );
+  }
+
+  return Result.ok(result.data.formatVersion);
+}
+
+/**
+ * Upgrade a parsed chunk database JSON file to the current format version.
+ */
+function migrate(
+  x: object,
+  formatVersion: number,
+): Result.Result<SerializedJson, string> {
+  if (formatVersion > CHUNK_DATABASE_FORMAT_VERSION) {
+    return Result.error(
+      `Chunk database format version ${formatVersion} is newer than the newest version this app supports (${CHUNK_DATABASE_FORMAT_VERSION}). Try updating the app.`,
+    );
+  }
+
+  let db = x as SerializedJson;
+  for (
+    let version = formatVersion;
+    version < CHUNK_DATABASE_FORMAT_VERSION;
+    version++
+  ) {
+    const migration = MIGRATIONS[version];
+
+    if (!migration) {
+      return Result.error(
+        `No migration from chunk database format version ${version}`,
+      );
+    }
+
+    db = migration(db);
+  }
+
+  return Result.ok(db);
+}
+
+/**
+ * Deserialize a parsed chunk database JSON file, migrating it from older
+ * format versions if needed.
+ *
+ * If the JSON references a binary embeddings file, you need to pass the
+ * contents of that file as `embeddingsBinary`.
+ */
 export function deserializeChunkDatabase(
   x: object,
+  embeddingsBinary?: ArrayBuffer,
 ): Result.Result<ChunkDatabase, string> {
-  const result = SerializableChunkDatabaseSchema.safeParse(x);
+  const versionResult = readFormatVersion(x);
+
+  if (Result.isError(versionResult)) {
+    return versionResult;
+  }
+
+  const formatVersion = versionResult.value;
+  const migrateResult = migrate(x, formatVersion);
+
+  if (Result.isError(migrateResult)) {
+    return migrateResult;
+  }
+
+  const result = SerializableChunkDatabaseSchema.safeParse(migrateResult.value);
 
   if (!result.success) {
-    return Result.error(`Invalid chunk database: ${result.error}`);
+    return Result.error(
+      `Invalid chunk database (format version ${formatVersion}): ${result.error}`,
+    );
+  }
+
+  return chunkDatabaseFromSerializableChunkDatabase(
+    result.data,
+    embeddingsBinary,
+    formatVersion,
+  );
+}
+
+/**
+ * Check that the embeddings in the database can be compared with the ones a
+ * pipeline with the given settings makes.
+ *
+ * Searching with a different model or different settings would either fail
+ * outright or silently give nonsense scores, so do this check when loading a
+ * database for searching.
+ */
+export function checkCompatibility(
+  db: ChunkDatabase,
+  settings: Embeddings.PipelineSettings = Embeddings.PIPELINE_SETTINGS,
+): Result.Result<ChunkDatabase, string> {
+  const { metadata } = db;
+  const problems: string[] = [];
+
+  if (metadata.embeddingModel !== settings.model) {
+    problems.push(
+      `it was embedded with model ${metadata.embeddingModel}, but queries use ${settings.model}`,
+    );
+  }
+
+  const actualDimension = db.embeddings.dims[1];
+  if (metadata.dimension !== actualDimension) {
+    problems.push(
+      `its metadata says the dimension is ${metadata.dimension}, but its embeddings have dimension ${actualDimension}`,
+    );
+  }
+
+  if (metadata.dimension !== settings.dimension) {
+    problems.push(
+      `it has dimension ${metadata.dimension}, but queries have dimension ${settings.dimension}`,
+    );
+  }
+
+  if (metadata.pipeline.dtype !== settings.dtype) {
+    problems.push(
+      `it was embedded with dtype ${metadata.pipeline.dtype}, but queries use ${settings.dtype}`,
+    );
   }
 
-  return chunkDatabaseFromSerializableChunkDatabase(result.data);
+  if (metadata.pipeline.pooling !== settings.pooling) {
+    problems.push(
+      `it was embedded with ${metadata.pipeline.pooling} pooling, but queries use ${settings.pooling} pooling`,
+    );
+  }
+
+  if (metadata.pipeline.normalize !== settings.normalize) {
+    const describe = (normalize: boolean) =>
+      normalize ? "normalized" : "not normalized";
+    problems.push(
+      `its embeddings are ${describe(metadata.pipeline.normalize)}, but queries are ${describe(settings.normalize)}`,
+    );
+  }
+
+  if (problems.length > 0) {
+    return Result.error(
+      `Chunk database is not compatible with the search pipeline: ${problems.join("; ")}`,
+    );
+  }
+
+  return Result.ok(db);
+}
+
+/** Does the parsed chunk database JSON need a binary embeddings file? */
+export function binaryEmbeddingsFile(x: object): string | undefined {
+  const result = Zod.object({
+    embeddings: Embeddings.BinaryTensorReferenceSchema,
+  }).safeParse(x);
+
+  return result.success ? result.data.embeddings.file : undefined;
 }
 
 export function serializeChunkDatabase(
@@ -85,8 +466,11 @@ export function serializeChunkDatabase(
   }
 
   const serializable: SerializableChunkDatabase = {
+    formatVersion: CHUNK_DATABASE_FORMAT_VERSION,
+    works: db.works,
     chunks: db.chunks,
     embeddings: tensorDataResult.value,
+    lexicalIndex: Bm25.serializeIndex(db.lexicalIndex),
     metadata: db.metadata,
   };
 
@@ -95,6 +479,47 @@ export function serializeChunkDatabase(
   return Result.ok(jsonString);
 }
 
+/**
+ * Serialize the database with its embeddings in the binary container format
+ * (see `Embeddings.encodeTensorBinary`).
+ *
+ * `embeddingsFile` is the path of the binary file relative to the JSON file,
+ * and is recorded in the JSON so that readers can find it.
+ */
+export function serializeChunkDatabaseWithBinaryEmbeddings(
+  db: ChunkDatabase,
+  embeddingsFile: string,
+  encoding: Embeddings.BinaryEncoding,
+): Result.Result<SerializedChunkDatabaseWithBinaryEmbeddings, string> {
+  const binaryResult = Embeddings.encodeTensorBinary(db.embeddings, encoding);
+
+  if (Result.isError(binaryResult)) {
+    return Result.error(
+      `Failed to serialize embeddings: ${binaryResult.error}`,
+    );
+  }
+
+  const [rows, columns] = db.embeddings.dims;
+
+  const serializable: SerializableChunkDatabase = {
+    formatVersion: CHUNK_DATABASE_FORMAT_VERSION,
+    works: db.works,
+    chunks: db.chunks,
+    lexicalIndex: Bm25.serializeIndex(db.lexicalIndex),
+    embeddings: {
+      dataType: "binary",
+      encoding,
+      file: embeddingsFile,
+      dimensions: [rows!, columns!],
+    },
+    metadata: db.metadata,
+  };
+
+  const jsonString = JSON.stringify(serializable, undefined, 2);
+
+  return Result.ok({ json: jsonString, embeddings: binaryResult.value });
+}
+
 async function embedChunks(
   pipeline: FeatureExtractionPipeline,
   chunks: readonly FinalizedChunk[],
@@ -104,13 +529,143 @@ async function embedChunks(
   return await Embeddings.extractFeaturesInBatches(pipeline, texts, batch_size);
 }
 
+/**
+ * Embed the chunks, but copy the embeddings of any chunks that are already in
+ * the `previous` database rather than embedding them again.
+ *
+ * This relies on chunk IDs being content-addressed (see `chunkId`).
+ */
+async function embedChunksReusingPrevious(
+  pipeline: FeatureExtractionPipeline,
+  chunks: readonly FinalizedChunk[],
+  previous: ChunkDatabase,
+): Promise<Result.Result<Tensor, string>> {
+  // Reused embeddings would be mixed with new ones, so they had better come
+  // from the same pipeline.
+  const compatibilityResult = checkCompatibility(previous);
+
+  if (Result.isError(compatibilityResult)) {
+    return Result.error(
+      `Can't reuse embeddings from the previous database: ${compatibilityResult.error}`,
+    );
+  }
+
+  const previousData = previous.embeddings.data;
+
+  if (!(previousData instanceof Float32Array)) {
+    return Result.error("Previous database embeddings must be a Float32Array");
+  }
+
+  const dimension = previous.metadata.dimension;
+  const previousRows = new Map(
+    previous.chunks.map((chunk, row) => [chunk.id, row]),
+  );
+
+  const newChunks = chunks.filter((chunk) => !previousRows.has(chunk.id));
+  let newData: Float32Array = new Float32Array(0);
+
+  if (newChunks.length > 0) {
+    const newEmbeddings = await embedChunks(pipeline, newChunks);
+
+    if (!(newEmbeddings.data instanceof Float32Array)) {
+      return Result.error("New embeddings must be a Float32Array");
+    }
+
+    if (newEmbeddings.dims[1] !== dimension) {
+      return Result.error(
+        `New embeddings have dimension ${newEmbeddings.dims[1]}, but the previous ones have dimension ${dimension}`,
+      );
+    }
+
+    newData = newEmbeddings.data;
+  }
+
+  // Fill in the rows in chunk order, taking each one from wherever it lives.
+  const data = new Float32Array(chunks.length * dimension);
+  let newRow = 0;
+
+  chunks.forEach((chunk, row) => {
+    const previousRow = previousRows.get(chunk.id);
+
+    if (previousRow === undefined) {
+      const start = newRow * dimension;
+      data.set(newData.subarray(start, start + dimension), row * dimension);
+      newRow++;
+    } else {
+      const start = previousRow * dimension;
+      data.set(
+        previousData.subarray(start, start + dimension),
+        row * dimension,
+      );
+    }
+  });
+
+  return Result.ok(new Tensor("float32", data, [chunks.length, dimension]));
+}
+
+/** How the chunks of a new build relate to the chunks of a previous one. */
+export interface ReuseSummary {
+  /** Chunks that are not in the previous database. */
+  readonly added: number;
+  /** Chunks of the previous database that are gone. */
+  readonly removed: number;
+  /** Chunks whose embeddings come from the previous database. */
+  readonly reused: number;
+}
+
+export function summarizeReuse(
+  chunks: readonly FinalizedChunk[],
+  previous: ChunkDatabase | undefined,
+): ReuseSummary {
+  const previousIds = new Set(previous?.chunks.map((chunk) => chunk.id));
+  const ids = new Set(chunks.map((chunk) => chunk.id));
+
+  const reused = chunks.filter((chunk) => previousIds.has(chunk.id)).length;
+  const removed = [...previousIds].filter((id) => !ids.has(id)).length;
+
+  return { added: chunks.length - reused, removed, reused };
+}
+
+/**
+ * Embed the chunks and build the database.
+ *
+ * The `chunking` profile of each input is kept in the metadata. If you pass a
+ * `previous` database, chunks that are unchanged since then keep their old
+ * embeddings instead of being embedded again.
+ */
 export async function create(
   featureExtractionPipeline: FeatureExtractionPipeline,
+  works: readonly Work[],
   chunks: readonly FinalizedChunk[],
+  chunking: readonly InputChunking[],
+  previous?: ChunkDatabase,
 ): Promise<Result.Result<ChunkDatabase, string>> {
   const now = new Date().toISOString();
 
-  const embeddedChunks = await embedChunks(featureExtractionPipeline, chunks);
+  const unknownWork = chunks.find(
+    (chunk) => !works.some((work) => work.id === chunk.work),
+  );
+
+  if (unknownWork) {
+    return Result.error(`Chunk from unknown work: ${unknownWork.work}`);
+  }
+
+  let embeddedChunks;
+  if (previous) {
+    const embeddedChunksResult = await embedChunksReusingPrevious(
+      featureExtractionPipeline,
+      chunks,
+      previous,
+    );
+
+    if (Result.isError(embeddedChunksResult)) {
+      return embeddedChunksResult;
+    }
+
+    embeddedChunks = embeddedChunksResult.value;
+  } else {
+    embeddedChunks = await embedChunks(featureExtractionPipeline, chunks);
+  }
 
   if (embeddedChunks.dims.length !== 2) {
     return Result.error("Invalid embeddings dimensions");
@@ -127,12 +682,21 @@ export async function create(
   }
 
   const db: ChunkDatabase = {
+    formatVersion: CHUNK_DATABASE_FORMAT_VERSION,
+    works,
     chunks,
     embeddings: embeddedChunks,
+    lexicalIndex: Bm25.createIndex(chunks.map((chunk) => chunk.rawText)),
     metadata: {
-      embeddingModel: Constant.MODEL_NAME,
+      embeddingModel: Embeddings.PIPELINE_SETTINGS.model,
       dimension: vectorLength,
       createdAt: now,
+      pipeline: {
+        dtype: Embeddings.PIPELINE_SETTINGS.dtype,
+        pooling: Embeddings.PIPELINE_SETTINGS.pooling,
+        normalize: Embeddings.PIPELINE_SETTINGS.normalize,
+      },
+      chunking,
     },
   };
 
@@ -141,17 +705,149 @@ export async function create(
 
 export interface ChunkWithScore {
   chunk: FinalizedChunk;
+  /** The score that the results are ranked by. Depends on the search mode. */
   score: number;
+  /** Cosine similarity to the query, if the search mode used it. */
+  semanticScore?: number;
+  /** BM25 score for the query, if the search mode used it. */
+  lexicalScore?: number;
 }
 
+/**
+ * Lexical searches don't embed the query, so they don't need a `pipeline`.
+ */
 export async function search(
   db: ChunkDatabase,
-  pipeline: FeatureExtractionPipeline,
+  pipeline: FeatureExtractionPipeline | undefined,
   query: string,
+  options: SearchOptions = {},
 ): Promise<Result.Result<ChunkWithScore[], string>> {
+  const mode = options.mode ?? "semantic";
+
+  // Only the matching rows get scored, so the cutoff only sees their scores.
+  // Scores are indexed by position in `rows` rather than by chunk.
+  const rows = matchingRows(db.chunks, options.filter);
+
+  // Nothing to score, so don't bother embedding the query.
+  if (rows.length === 0) return Result.ok([]);
+
+  let semanticScores: Float32Array | undefined;
+  if (mode !== "lexical") {
+    if (pipeline === undefined) {
+      return Result.error(`A ${mode} search needs the embedding pipeline`);
+    }
+
+    const semanticResult = await semanticSearchScores(
+      db,
+      pipeline,
+      query,
+      rows,
+    );
+
+    if (Result.isError(semanticResult)) {
+      return semanticResult;
+    }
+
+    semanticScores = semanticResult.value;
+  }
+
+  let lexicalScores: Float32Array | undefined;
+  if (mode !== "semantic") {
+    // BM25 scores don't depend on each other, so scoring everything and
+    // picking out the rows is the same as scoring just the rows.
+    const allLexicalScores = Bm25.scoreQuery(db.lexicalIndex, query);
+    lexicalScores = Float32Array.from(rows, (row) => allLexicalScores[row]!);
+  }
+
+  let scores: Float32Array;
+  if (semanticScores && lexicalScores) {
+    scores = reciprocalRankFusion(rows.length, [
+      rankByScore(semanticScores),
+      rankByScore(lexicalScores),
+    ]);
+  } else {
+    // One of these has to be set, since the mode is not hybrid.
+    scores = (semanticScores ?? lexicalScores)!;
+  }
+
+  const bestIndices = Embeddings.findBestResults(scores, options.cutoff);
+
+  const best = bestIndices
+    // Chunks without any of the query terms aren't lexical matches at all.
+    .filter((index) => mode !== "lexical" || scores[index]! > 0)
+    .map((index) => {
+      return {
+        score: scores[index]!,
+        semanticScore: semanticScores?.[index],
+        lexicalScore: lexicalScores?.[index],
+        chunk: db.chunks[rows[index]!]!,
+      };
+    });
+
+  return Result.ok(best);
+}
+
+/** How many chunks a search with the filter could find. */
+export function countMatches(db: ChunkDatabase, filter?: SearchFilter): number {
+  return matchingRows(db.chunks, filter).length;
+}
+
+/**
+ * The rows of the chunks that match the filter, in order.
+ */
+function matchingRows(
+  chunks: readonly FinalizedChunk[],
+  filter: SearchFilter = {},
+): number[] {
+  const { works, titles, headingPathPrefix, blockTypes } = filter;
+  const rows = [];
+
+  for (let row = 0; row < chunks.length; row++) {
+    const chunk = chunks[row]!;
+
+    if (works && !works.includes(chunk.work)) continue;
+    if (titles && !titles.includes(chunk.title)) continue;
+    if (
+      headingPathPrefix &&
+      !headingPathPrefix.every((heading, i) => chunk.headingPath[i] === heading)
+    ) {
+      continue;
+    }
+    if (blockTypes && !blockTypes.every((t) => chunk.blockTypes.includes(t))) {
+      continue;
+    }
+
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/** Cosine similarity of the query to the chunks in `rows`. */
+async function semanticSearchScores(
+  db: ChunkDatabase,
+  pipeline: FeatureExtractionPipeline,
+  query: string,
+  rows: readonly number[],
+): Promise<Result.Result<Float32Array, string>> {
   const embeddedQuery = await Embeddings.extractFeatures(pipeline, [query]);
+
+  const queryDimension = embeddedQuery.dims[1];
+  const dbDimension = db.embeddings.dims[1];
+  if (queryDimension !== dbDimension) {
+    return Result.error(
+      `Query embedding has dimension ${queryDimension}, but the database embeddings have dimension ${dbDimension}`,
+    );
+  }
+
+  const embeddingsResult = selectRows(db.embeddings, rows);
+
+  if (Result.isError(embeddingsResult)) {
+    return embeddingsResult;
+  }
+
   const similarityTensor = await Embeddings.similarity(
-    db.embeddings,
+    embeddingsResult.value,
     embeddedQuery,
   );
   if (!similarityTensor) return Result.error("Failed to compute similarity");
@@ -162,14 +858,72 @@ export async function search(
     return Result.error("Invalid similarity data type");
   }
 
-  const bestIndices = Embeddings.findBestResults(similarityData);
+  return Result.ok(similarityData);
+}
 
-  const best = bestIndices.map((index) => {
-    return {
-      score: similarityData[index]!,
-      chunk: db.chunks[index]!,
-    };
+/**
+ * The embeddings of just the given rows. Skips the copy when that's all of
+ * them.
+ */
+function selectRows(
+  embeddings: Tensor,
+  rows: readonly number[],
+): Result.Result<Tensor, string> {
+  const [rowCount, dimension] = embeddings.dims as [number, number];
+
+  if (rows.length === rowCount) {
+    return Result.ok(embeddings);
+  }
+
+  const allData = embeddings.data;
+
+  if (!(allData instanceof Float32Array)) {
+    return Result.error("Database embeddings must be a Float32Array");
+  }
+
+  const data = new Float32Array(rows.length * dimension);
+
+  rows.forEach((row, i) => {
+    const start = row * dimension;
+    data.set(allData.subarray(start, start + dimension), i * dimension);
   });
 
-  return Result.ok(best);
+  return Result.ok(new Tensor("float32", data, [rows.length, dimension]));
+}
+
+/**
+ * Indices of the documents with a positive score, best first. Documents that
+ * score 0 or less don't make the ranking.
+ */
+function rankByScore(scores: Float32Array): number[] {
+  const indices = [];
+  for (let i = 0; i < scores.length; i++) {
+    if (scores[i]! > 0) indices.push(i);
+  }
+
+  return indices.sort((a, b) => scores[b]! - scores[a]!);
+}
+
+/**
+ * Combine rankings with reciprocal rank fusion: each document scores
+ * `1 / (k + rank)` for every ranking it shows up in.
+ *
+ * Only ranks matter, not raw scores, which is handy since cosine similarities
+ * and BM25 scores are on completely different scales. `k = 60` is the usual
+ * choice from the original paper.
+ */
+function reciprocalRankFusion(
+  documentCount: number,
+  rankings: readonly (readonly number[])[],
+  k = 60,
+): Float32Array {
+  const scores = new Float32Array(documentCount);
+
+  for (const ranking of rankings) {
+    ranking.forEach((documentIndex, rank) => {
+      scores[documentIndex] += 1 / (k + rank + 1);
+    });
+  }
+
+  return scores;
 }
@@ -0,0 +1,27 @@
+import { createHash } from "node:crypto";
+import type { WorkId } from "./work";
+
+/**
+ * Content-addressed chunk ID.
+ *
+ * The ID is a hash of everything that goes into a chunk's embedding, plus where
+ * the chunk came from. So if a chunk has the same ID in two builds of the
+ * database, it will have the same embedding too.
+ */
+export function chunkId(chunk: {
+  readonly work: WorkId;
+  readonly title: string;
+  readonly headingPath: readonly string[];
+  readonly rawText: string;
+}): string {
+  // Hash a JSON array rather than the concatenated strings so that moving text
+  // from one field to the next still changes the hash.
+  const key = JSON.stringify([
+    chunk.work,
+    chunk.title,
+    chunk.headingPath,
+    chunk.rawText,
+  ]);
+
+  return createHash("sha256").update(key).digest("hex");
+}
@@ -1,22 +1,32 @@
 // Basic idea:
 //
 // for each block:
+//   if current chunk + block > MAX_TOKENS, or block is a heading:
+//     finalize current chunk, except for the headings at its end
+//     calculate overlap
+//     start fresh with those headings
+//
 //   if isHeading -> update heading stack
 //
-//   if current chunk + block > MAX_TOKENS:
-//     finalize current chunk
-//     calculate overlap
-//     start fresh
+//   add block to current chunk, with the heading stack
 //
-//   add block to current chunk
+// merge each subsection into the chunk before it if they fit together
 
 import type { RootContent } from "mdast";
-import * as Constant from "../../shared/constants";
-import { MAX_TOKENS } from "../../shared/constants";
+import type { Position } from "unist";
+import { chunkId } from "./chunk-id";
+import {
+  type ChunkingProfile,
+  DEFAULT_CHUNKING_PROFILE,
+} from "./chunking-profile";
 import type { FinalizedChunk } from "./finalized-chunk";
+import { sectionUrl } from "./heading-anchor";
 import * as Stack from "./immutable-stack";
+import { takeOverlap } from "./overlap";
+import { tailOfBlock } from "./parse-semantic-blocks";
+import * as SourceRange from "./source-range";
 import { countTokens } from "./tokens";
-import type { Work } from "./work";
+import type { WorkId } from "./work";
 /**
  * A `SemanticBlock` is a block of content that you don't want to break apart,
  * e.g., a single `li`, a sentence, etc.
@@ -44,6 +54,22 @@ export interface SemanticBlock {
 
   /** The number of tokens in the block. */
   readonly tokens: number;
+
+  /** Index of the notebook cell the block came from, for notebooks. */
+  readonly cellIndex?: number;
+
+  /**
+   * Whether the block has to be in the same chunk as the block after it, e.g.,
+   * because it's a heading.
+   */
+  readonly keepWithNext?: boolean;
+
+  /**
+   * Where the node is in the parsed text. Blocks split out of a bigger node,
+   * e.g., some of the sentences of a long paragraph, have the position of the
+   * whole node.
+   */
+  readonly position?: Position | undefined;
 }
 
 interface Heading extends SemanticBlock {
@@ -51,6 +77,9 @@ interface Heading extends SemanticBlock {
 
   /** The level of the heading. */
   readonly headingLevel: 1 | 2 | 3 | 4 | 5 | 6;
+
+  /** The `id` of the heading on the rendered page. */
+  readonly anchor: string;
 }
 
 function isHeading(semanticBlock: SemanticBlock): semanticBlock is Heading {
@@ -60,67 +89,193 @@ function isHeading(semanticBlock: SemanticBlock): semanticBlock is Heading {
 interface HeadingDatum {
   readonly text: string;
   readonly level: 1 | 2 | 3 | 4 | 5 | 6;
+  readonly anchor: string;
+}
+
+/**
+ * The blocks of a chunk, before it's finalized.
+ */
+interface PendingChunk {
+  readonly blocks: readonly SemanticBlock[];
+  readonly overlapBlocks: readonly SemanticBlock[];
+  /** The headings in effect for the first of the `blocks` that isn't one. */
+  readonly headings: Stack.Stack<HeadingDatum>;
+}
+
+export interface ChunkOptions {
+  /**
+   * The text the blocks were parsed from, so that chunks can record where
+   * their blocks are in it.
+   */
+  readonly source?: string | undefined;
+
+  /**
+   * The text that was actually parsed, if it was rewritten from the `source`,
+   * e.g., by `fencedDivsToDirectives`.
+   */
+  readonly parsedSource?: string | undefined;
+
+  /** How big the chunks are, and what goes into them. */
+  readonly profile?: ChunkingProfile | undefined;
 }
 
 /**
  * Chunks blocks with heading context and overlap between chunks.
+ *
+ * The heading path of a chunk is the one in effect for its first block after
+ * any headings it starts with, so a chunk that ends right before a heading
+ * doesn't get that heading's path, and a chunk that starts with a chapter
+ * heading and then a section heading gets the section's.
+ * Blocks that have to be kept with the next block, like headings, never end a
+ * chunk. They move on to the next chunk instead.
+ *
+ * Every section starts a new chunk, but a small subsection is merged into the
+ * chunk before it, if that chunk is in one of its parent sections and the two
+ * fit in `profile.maxTokens` together.
+ *
+ * If the document has a `baseUrl`, chunks link to the section of their
+ * innermost heading on that page.
  */
 export async function chunkWithContext(
   blocks: readonly SemanticBlock[],
-  work: Work,
+  work: WorkId,
   title: string,
+  baseUrl: string | undefined,
+  {
+    source,
+    parsedSource,
+    profile = DEFAULT_CHUNKING_PROFILE,
+  }: ChunkOptions = {},
 ): Promise<readonly FinalizedChunk[]> {
-  const chunks: FinalizedChunk[] = [];
+  const pendingChunks: PendingChunk[] = [];
   let headingStack: Stack.Stack<HeadingDatum> = Stack.create();
   let currentBlocks: SemanticBlock[] = [];
+  // The headings in effect for each of the current blocks
+  let currentHeadings: Stack.Stack<HeadingDatum>[] = [];
   let overlapBlocks: SemanticBlock[] = [];
 
   for (const block of blocks) {
-    if (isHeading(block)) {
-      headingStack = updateHeadingStack(headingStack, block);
-    }
-
     // Check if adding this block would exceed the limit
-    const currentTokens = currentBlocks.reduce((sum, b) => sum + b.tokens, 0);
-    const wouldExceed = currentTokens + block.tokens > MAX_TOKENS;
+    const currentTokens = blockTokens(currentBlocks);
+    const wouldExceed = currentTokens + block.tokens > profile.maxTokens;
+
+    // The blocks at the end that have to stay with this one. If that's all of
+    // them, the chunk goes over the limit rather than being just a heading.
+    let end = currentBlocks.length;
+    while (end > 0 && currentBlocks[end - 1]!.keepWithNext) end--;
 
-    if (currentBlocks.length > 0 && wouldExceed) {
+    if (end > 0 && (wouldExceed || isHeading(block))) {
       // Finalize current chunk
-      chunks.push(
-        await finalizeChunk(
-          currentBlocks,
-          overlapBlocks,
-          headingStack,
-          work,
-          title,
-        ),
+      pendingChunks.push({
+        blocks: currentBlocks.slice(0, end),
+        overlapBlocks,
+        headings: contentHeadings(currentBlocks, currentHeadings),
+      });
+
+      // Prepare overlap for next chunk, which starts with the blocks that were
+      // kept back.
+      overlapBlocks = await takeOverlap(
+        currentBlocks.slice(0, end),
+        profile.overlapTokens,
+        tailOfBlock,
       );
+      currentBlocks = currentBlocks.slice(end);
+      currentHeadings = currentHeadings.slice(end);
+    }
 
-      // Prepare overlap for next chunk
-      overlapBlocks = calculateOverlap(currentBlocks);
-      currentBlocks = [];
+    // Only now that the chunk before it is done does a heading take effect.
+    if (isHeading(block)) {
+      headingStack = updateHeadingStack(headingStack, block);
     }
 
     // Add block to current chunk
     currentBlocks.push(block);
+    currentHeadings.push(headingStack);
   }
 
   // Finalize remaining blocks
   if (currentBlocks.length > 0) {
-    chunks.push(
-      await finalizeChunk(
-        currentBlocks,
-        overlapBlocks,
-        headingStack,
-        work,
-        title,
-      ),
-    );
+    pendingChunks.push({
+      blocks: currentBlocks,
+      overlapBlocks,
+      headings: contentHeadings(currentBlocks, currentHeadings),
+    });
+  }
+
+  const sourceFile =
+    source === undefined
+      ? undefined
+      : SourceRange.indexSourceFile(source, parsedSource);
+  const finalize = (chunk: PendingChunk) =>
+    finalizeChunk(chunk, work, title, baseUrl, sourceFile, profile.breadcrumbs);
+
+  const chunks: FinalizedChunk[] = [];
+  for (const chunk of mergeSubsections(pendingChunks, profile.maxTokens)) {
+    chunks.push(await finalize(chunk));
   }
 
   return chunks;
 }
 
+/**
+ * Merges each chunk into the one before it, if the chunk before is in a parent
+ * section of it, and their blocks have at most `maxTokens` together. Chunks of
+ * the same section are never merged, since they were only split to keep them
+ * under the limit.
+ */
+function mergeSubsections(
+  chunks: readonly PendingChunk[],
+  maxTokens: number,
+): PendingChunk[] {
+  const merged: PendingChunk[] = [];
+
+  for (const chunk of chunks) {
+    const previous = merged.at(-1);
+
+    if (
+      previous !== undefined &&
+      isSubsection(chunk.headings, previous.headings) &&
+      blockTokens(previous.blocks) + blockTokens(chunk.blocks) <= maxTokens
+    ) {
+      merged[merged.length - 1] = {
+        ...previous,
+        blocks: [...previous.blocks, ...chunk.blocks],
+      };
+    } else {
+      merged.push(chunk);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * The headings in effect for the first block that isn't a heading, or for the
+ * last block if they all are.
+ */
+function contentHeadings(
+  blocks: readonly SemanticBlock[],
+  headings: readonly Stack.Stack<HeadingDatum>[],
+): Stack.Stack<HeadingDatum> {
+  const index = blocks.findIndex((block) => !isHeading(block));
+  return headings[index === -1 ? headings.length - 1 : index]!;
+}
+
+/** Whether `headings` are strictly deeper than `parent` and start with it. */
+function isSubsection(
+  headings: Stack.Stack<HeadingDatum>,
+  parent: Stack.Stack<HeadingDatum>,
+): boolean {
+  return (
+    Stack.size(headings) > Stack.size(parent) &&
+    parent.items.every((heading, i) => headings.items[i] === heading)
+  );
+}
+
+function blockTokens(blocks: readonly SemanticBlock[]): number {
+  return blocks.reduce((sum, b) => sum + b.tokens, 0);
+}
+
 /**
  * Updates the heading stack to maintain proper nesting.
  * Pops any headings at the same or deeper level, then pushes the new heading.
@@ -141,49 +296,32 @@ function updateHeadingStack(
   return Stack.push(headings, {
     text: heading.text,
     level: heading.headingLevel,
+    anchor: heading.anchor,
   });
 }
 
-/**
- * Calculates overlap blocks from the end of the current chunk.
- */
-function calculateOverlap(blocks: readonly SemanticBlock[]): SemanticBlock[] {
-  const overlap: SemanticBlock[] = [];
-  let tokens = 0;
-
-  // Work backwards from the end
-  for (let i = blocks.length - 1; i >= 0; i--) {
-    const block = blocks[i]!;
-
-    // Add blocks until we hit the overlap limit
-    if (tokens + block.tokens <= Constant.OVERLAP_TOKENS) {
-      overlap.unshift(block);
-      tokens += block.tokens;
-    } else {
-      break;
-    }
-  }
-
-  return overlap;
-}
-
 /**
  * Creates the final chunk with heading context and overlap.
  */
 async function finalizeChunk(
-  blocks: SemanticBlock[],
-  overlapBlocks: SemanticBlock[],
-  headings: Stack.Stack<HeadingDatum>,
-  work: Work,
+  { blocks, overlapBlocks, headings }: PendingChunk,
+  work: WorkId,
   title: string,
+  baseUrl: string | undefined,
+  sourceFile: SourceRange.SourceFile | undefined,
+  breadcrumbs: boolean,
 ): Promise<FinalizedChunk> {
   const headingPath = headings.items.map((h) => h.text);
+  const sourceUrl =
+    baseUrl === undefined
+      ? undefined
+      : sectionUrl(baseUrl, Stack.peek(headings)?.anchor);
 
   // Build the text that will be embedded
   const parts: string[] = [];
 
   // Heading breadcrumb
-  if (headingPath.length > 0) {
+  if (breadcrumbs && headingPath.length > 0) {
     parts.push(`# ${headingPath.join(" > ")}`);
   }
 
@@ -210,6 +348,12 @@ async function finalizeChunk(
   }
   markdownParts.push(blocks.map((b) => b.markdown).join("\n"));
   const markdown = markdownParts.join("\n");
+  const overlapLength =
+    overlapBlocks.length > 0 ? markdownParts[0]!.length + 1 : undefined;
+
+  const cellIndices = [
+    ...new Set(blocks.flatMap((b) => b.cellIndex ?? [])),
+  ].sort((a, b) => a - b);
 
   return {
     headingPath,
@@ -218,6 +362,32 @@ async function finalizeChunk(
     markdownText: markdown,
     work: work,
     title,
-    id: crypto.randomUUID(),
+    id: chunkId({ work, title, headingPath, rawText: textWithContext }),
+    sourceUrl,
+    blockTypes: [...new Set(blocks.map((b) => b.type))].sort(),
+    cellIndices: cellIndices.length > 0 ? cellIndices : undefined,
+    sourceRange: blocksSourceRange(blocks, sourceFile),
+    overlapLength,
   };
 }
+
+/**
+ * From the start of the first block to the end of the last one, if we know
+ * where all of them are. For blocks that were split out of a bigger node, that
+ * is where the whole node is.
+ */
+function blocksSourceRange(
+  blocks: readonly SemanticBlock[],
+  sourceFile: SourceRange.SourceFile | undefined,
+): FinalizedChunk["sourceRange"] {
+  if (sourceFile === undefined) return undefined;
+
+  const positions = blocks.map((b) => b.position);
+  if (positions.some((position) => position === undefined)) return undefined;
+
+  return SourceRange.rangeFromPoints(
+    sourceFile,
+    positions[0]!.start,
+    positions.at(-1)!.end,
+  );
+}
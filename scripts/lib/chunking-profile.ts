@@ -0,0 +1,78 @@
+import * as Zod from "zod";
+import {
+  MAX_TOKENS,
+  OVERLAP_TOKENS,
+  TARGET_TOKENS,
+  TEXT_MAX_TOKENS,
+} from "../../shared/constants";
+
+const ChunkingProfileObjectSchema = Zod.object({
+  /**
+   * Most tokens of content in a chunk. Plain text counts the overlap too, but
+   * markdown doesn't, and leaves room for it and the heading breadcrumbs.
+   */
+  maxTokens: Zod.int().min(1),
+  /** Oversized blocks are split into pieces of about this many tokens. */
+  targetTokens: Zod.int().min(1),
+  /**
+   * Tokens at the end of each chunk to repeat at the start of the next one.
+   * Whole blocks are repeated if they fit, and then the last sentences or
+   * lines of the block before them.
+   */
+  overlapTokens: Zod.int().min(0),
+  /** Whether the embedded text starts with the heading path of the chunk. */
+  breadcrumbs: Zod.boolean(),
+  /**
+   * Types of nodes, or blocks, to leave out, e.g., `html`, `code`, or
+   * `callout-tip`.
+   */
+  skipNodeTypes: Zod.array(Zod.string()).readonly(),
+  /**
+   * How to split code blocks that are too big:
+   *
+   * - `blankLines`: at the first blank line past the target size
+   * - `lines`: at the first line past the target size
+   * - `never`: not at all, and let the model truncate them
+   */
+  codeSplitting: Zod.enum(["blankLines", "lines", "never"]),
+});
+
+/** How an input is split into chunks. */
+export const ChunkingProfileSchema = ChunkingProfileObjectSchema.readonly();
+
+export type ChunkingProfile = Zod.infer<typeof ChunkingProfileSchema>;
+
+/** Any of the settings of a profile, e.g., in the embed config. */
+export const PartialChunkingProfileSchema =
+  ChunkingProfileObjectSchema.partial().readonly();
+
+export type PartialChunkingProfile = Zod.infer<
+  typeof PartialChunkingProfileSchema
+>;
+
+export const DEFAULT_CHUNKING_PROFILE: ChunkingProfile = {
+  maxTokens: MAX_TOKENS,
+  targetTokens: TARGET_TOKENS,
+  overlapTokens: OVERLAP_TOKENS,
+  breadcrumbs: true,
+  skipNodeTypes: [],
+  codeSplitting: "blankLines",
+};
+
+/**
+ * The defaults for a type of input. Plain text is split much more simply, so
+ * it can get closer to the limit of the model.
+ */
+export function defaultProfile(inputType: string): ChunkingProfile {
+  return inputType === "text"
+    ? { ...DEFAULT_CHUNKING_PROFILE, maxTokens: TEXT_MAX_TOKENS }
+    : DEFAULT_CHUNKING_PROFILE;
+}
+
+/** Later settings take precedence over earlier ones. */
+export function resolve(
+  defaults: ChunkingProfile,
+  ...overrides: readonly (PartialChunkingProfile | undefined)[]
+): ChunkingProfile {
+  return Object.assign({}, defaults, ...overrides);
+}
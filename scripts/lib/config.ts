@@ -1,13 +1,34 @@
 import * as Zod from "zod";
 import * as Fs from "node:fs";
+import * as Path from "node:path";
 import * as Result from "../../shared/result";
-import { WorkSchema } from "./work";
+import * as ChunkingProfile from "./chunking-profile";
+import { WorkIdSchema, WorkSchema } from "./work";
 
 const InputSchema = Zod.object({
-  type: Zod.enum(["markdown", "text"]),
-  work: WorkSchema,
-  title: Zod.string(),
+  type: Zod.enum(["markdown", "text", "ipynb", "rst", "html", "python"]),
+  /** ID of one of the works declared in the config. */
+  work: WorkIdSchema,
+  /**
+   * Defaults to the title in the front matter of markdown files, or else the
+   * file name.
+   */
+  title: Zod.string().optional(),
   file: Zod.string(),
+  /**
+   * URL of the page this file is rendered to. Chunks link to their section on
+   * this page.
+   */
+  baseUrl: Zod.url().optional(),
+  /** For notebooks, whether to keep the text outputs of code cells. */
+  outputs: Zod.boolean().default(false),
+  /**
+   * For Python files, the dotted name of the module, e.g., `utils.fasta`.
+   * Defaults to the file name.
+   */
+  module: Zod.string().optional(),
+  /** How to chunk this input, on top of the config's `chunking`. */
+  chunking: ChunkingProfile.PartialChunkingProfileSchema.optional(),
 })
   .readonly()
   // The file should exist
@@ -15,18 +36,89 @@ const InputSchema = Zod.object({
 
 export type Input = Zod.infer<typeof InputSchema>;
 
+/**
+ * The title from the config, or else the title the document gives itself, or
+ * else the file name without its extension.
+ */
+export function inputTitle(input: Input, documentTitle?: string): string {
+  return (
+    input.title ??
+    documentTitle ??
+    Path.basename(input.file, Path.extname(input.file))
+  );
+}
+
+/**
+ * The chunking profile of the input: its own settings, or else the config's,
+ * or else the defaults for its type of input.
+ */
+export function inputChunkingProfile(
+  config: Config,
+  input: Input,
+): ChunkingProfile.ChunkingProfile {
+  return ChunkingProfile.resolve(
+    ChunkingProfile.defaultProfile(input.type),
+    config.chunking,
+    input.chunking,
+  );
+}
+
+/**
+ * How to store the embeddings:
+ *
+ * - `json`: inline in the output JSON file as an array of numbers
+ * - `float32`: in a separate binary file, as little-endian floats
+ * - `int8`: in a separate binary file, quantized with a scale per row
+ */
+const EmbeddingsFormatSchema = Zod.enum(["json", "float32", "int8"]);
+
 const ConfigSchema = Zod.object({
   output: Zod.string(),
+  works: Zod.array(WorkSchema),
   input: Zod.array(InputSchema),
+  embeddingsFormat: EmbeddingsFormatSchema.default("float32"),
+  /** How to chunk all of the inputs, unless they say otherwise. */
+  chunking: ChunkingProfile.PartialChunkingProfileSchema.optional(),
 })
   .readonly()
+  .refine(
+    (value) =>
+      new Set(value.works.map((work) => work.id)).size === value.works.length,
+    { message: "expected work IDs to be unique", path: ["works"] },
+  )
+  // Every input should come from one of the declared works.
+  .refine(
+    (value) =>
+      value.input.every((input) =>
+        value.works.some((work) => work.id === input.work),
+      ),
+    { message: "expected every input work to be declared", path: ["input"] },
+  )
   // The output file should not exist!
   .refine((value) => !Fs.existsSync(value.output), {
     message: "expected output file to NOT exist",
     path: ["output"],
-  });
+  })
+  // Neither should the binary embeddings file, if we are going to write one.
+  .refine(
+    (value) =>
+      value.embeddingsFormat === "json" ||
+      !Fs.existsSync(embeddingsOutputPath(value.output)),
+    {
+      message: "expected embeddings output file to NOT exist",
+      path: ["output"],
+    },
+  );
 
-type Config = Zod.infer<typeof ConfigSchema>;
+export type Config = Zod.infer<typeof ConfigSchema>;
+
+/**
+ * The binary embeddings file is written next to the output JSON file, e.g.,
+ * `db/db.json` gets `db/db.embeddings.bin`.
+ */
+export function embeddingsOutputPath(output: string): string {
+  return output.replace(/(\.json)?$/, ".embeddings.bin");
+}
 
 /**
  * Parse the input files from the CLI args.
@@ -0,0 +1,135 @@
+import { type ChunkRef, chunkRef } from "./db-stats";
+import type { FinalizedChunk } from "./finalized-chunk";
+
+export interface ModifiedChunk {
+  readonly before: ChunkRef;
+  readonly after: ChunkRef;
+  readonly tokensBefore: number;
+  readonly tokensAfter: number;
+}
+
+export interface ChunkDiff {
+  /** Chunks with the same ID, i.e., the exact same content and location. */
+  readonly unchanged: number;
+  readonly added: readonly ChunkRef[];
+  readonly removed: readonly ChunkRef[];
+  /** Chunks at the same heading path whose text changed. */
+  readonly modified: readonly ModifiedChunk[];
+}
+
+export interface ChunkMatching {
+  readonly diff: ChunkDiff;
+  /** The chunk each chunk of the new database matched in the old one. */
+  readonly previous: ReadonlyMap<FinalizedChunk, FinalizedChunk>;
+}
+
+/**
+ * Matches up the chunks of two databases.
+ *
+ * Chunk IDs are content hashes, so chunks with the same ID are unchanged. Of
+ * the rest, chunks in the same place (work, title, and heading path) are
+ * modified versions of each other. A section usually has several chunks, so
+ * those are paired up in order. Anything left over was added or removed.
+ */
+export function diffChunks(
+  before: readonly FinalizedChunk[],
+  after: readonly FinalizedChunk[],
+): ChunkMatching {
+  const previous = new Map<FinalizedChunk, FinalizedChunk>();
+
+  const beforeById = new Map(before.map((chunk) => [chunk.id, chunk]));
+  let unchanged = 0;
+  for (const chunk of after) {
+    const match = beforeById.get(chunk.id);
+
+    if (match !== undefined) {
+      previous.set(chunk, match);
+      beforeById.delete(chunk.id);
+      unchanged++;
+    }
+  }
+
+  // Whatever is left in `beforeById` didn't match by ID.
+  const beforeByLocation = new Map<string, FinalizedChunk[]>();
+  for (const chunk of beforeById.values()) {
+    const key = locationKey(chunk);
+    beforeByLocation.set(key, [...(beforeByLocation.get(key) ?? []), chunk]);
+  }
+
+  const added: ChunkRef[] = [];
+  const modified: ModifiedChunk[] = [];
+  for (const chunk of after) {
+    if (previous.has(chunk)) continue;
+
+    const match = beforeByLocation.get(locationKey(chunk))?.shift();
+
+    if (match === undefined) {
+      added.push(chunkRef(chunk));
+    } else {
+      previous.set(chunk, match);
+      modified.push({
+        before: chunkRef(match),
+        after: chunkRef(chunk),
+        tokensBefore: match.totalTokens,
+        tokensAfter: chunk.totalTokens,
+      });
+    }
+  }
+
+  const removed = [...beforeByLocation.values()].flat().map(chunkRef);
+
+  return { diff: { unchanged, added, removed, modified }, previous };
+}
+
+function locationKey(chunk: FinalizedChunk): string {
+  return JSON.stringify([chunk.work, chunk.title, chunk.headingPath]);
+}
+
+export interface MovedResult {
+  readonly chunk: ChunkRef;
+  /** 1-based. */
+  readonly rank: number;
+  /** Rank of the matching chunk in the old results, if it was in them. */
+  readonly previousRank: number | null;
+}
+
+export interface ResultMovement {
+  readonly query: string;
+  readonly results: readonly MovedResult[];
+  /** Old results that are no longer in the new ones. */
+  readonly dropped: readonly Omit<MovedResult, "previousRank">[];
+}
+
+/** How the results of the same query moved between two databases. */
+export function compareResults(
+  query: string,
+  beforeResults: readonly FinalizedChunk[],
+  afterResults: readonly FinalizedChunk[],
+  matching: ChunkMatching,
+): ResultMovement {
+  const beforeRanks = new Map(
+    beforeResults.map((chunk, i) => [chunk, i + 1] as const),
+  );
+  const kept = new Set<FinalizedChunk>();
+
+  const results = afterResults.map((chunk, i) => {
+    const match = matching.previous.get(chunk);
+    const previousRank =
+      match === undefined ? undefined : beforeRanks.get(match);
+
+    if (match !== undefined && previousRank !== undefined) kept.add(match);
+
+    return {
+      chunk: chunkRef(chunk),
+      rank: i + 1,
+      previousRank: previousRank ?? null,
+    };
+  });
+
+  const dropped = beforeResults
+    .map((chunk, i) => ({ chunk, rank: i + 1 }))
+    .filter(({ chunk }) => !kept.has(chunk))
+    .map(({ chunk, rank }) => ({ chunk: chunkRef(chunk), rank }));
+
+  return { query, results, dropped };
+}
@@ -0,0 +1,247 @@
+import * as Constant from "../../shared/constants";
+import * as Result from "../../shared/result";
+import type { ChunkDatabase } from "./chunk-database";
+import type { FinalizedChunk } from "./finalized-chunk";
+import type { WorkId } from "./work";
+
+/** Enough to find a chunk again in the database or on the page. */
+export interface ChunkRef {
+  readonly id: string;
+  readonly work: WorkId;
+  readonly title: string;
+  readonly headingPath: readonly string[];
+}
+
+export interface TitleStats {
+  readonly title: string;
+  readonly chunkCount: number;
+}
+
+export interface WorkStats {
+  readonly work: WorkId;
+  readonly chunkCount: number;
+  readonly titles: readonly TitleStats[];
+}
+
+export interface HistogramBucket {
+  /** Inclusive. */
+  readonly from: number;
+  /** Exclusive. */
+  readonly to: number;
+  readonly count: number;
+}
+
+export interface TokenStats {
+  readonly min: number;
+  readonly max: number;
+  readonly mean: number;
+  readonly median: number;
+  readonly histogram: readonly HistogramBucket[];
+  /** The model's input window. Chunks over it get truncated when embedded. */
+  readonly modelMaxTokens: number;
+  readonly overModelMaxTokens: number;
+}
+
+export interface NearDuplicate {
+  readonly a: ChunkRef;
+  readonly b: ChunkRef;
+  readonly similarity: number;
+}
+
+export interface DbStats {
+  readonly chunkCount: number;
+  readonly works: readonly WorkStats[];
+  readonly tokens: TokenStats;
+  readonly emptyHeadingPath: readonly ChunkRef[];
+  /** Groups of chunks with exactly the same `rawText`. */
+  readonly exactDuplicates: readonly (readonly ChunkRef[])[];
+  /**
+   * Pairs of chunks whose embeddings are at least `nearDuplicateThreshold`
+   * similar, most similar first. Exact duplicates are left out, since they
+   * are already listed.
+   */
+  readonly nearDuplicates: readonly NearDuplicate[];
+  readonly nearDuplicateThreshold: number;
+}
+
+export interface StatsOptions {
+  /** Width of the token histogram buckets. */
+  readonly bucketSize: number;
+  /** Cosine similarity at which two chunks count as near duplicates. */
+  readonly nearDuplicateThreshold: number;
+}
+
+export const DEFAULT_STATS_OPTIONS: StatsOptions = {
+  bucketSize: 32,
+  nearDuplicateThreshold: 0.95,
+};
+
+export function computeStats(
+  db: ChunkDatabase,
+  options: StatsOptions = DEFAULT_STATS_OPTIONS,
+): Result.Result<DbStats, string> {
+  const nearDuplicatesResult = findNearDuplicates(
+    db,
+    options.nearDuplicateThreshold,
+  );
+
+  if (Result.isError(nearDuplicatesResult)) {
+    return nearDuplicatesResult;
+  }
+
+  return Result.ok({
+    chunkCount: db.chunks.length,
+    works: countByWork(db.chunks),
+    tokens: tokenStats(db.chunks, options.bucketSize),
+    emptyHeadingPath: db.chunks
+      .filter((chunk) => chunk.headingPath.length === 0)
+      .map(chunkRef),
+    exactDuplicates: findExactDuplicates(db.chunks),
+    nearDuplicates: nearDuplicatesResult.value,
+    nearDuplicateThreshold: options.nearDuplicateThreshold,
+  });
+}
+
+export function chunkRef(chunk: FinalizedChunk): ChunkRef {
+  return {
+    id: chunk.id,
+    work: chunk.work,
+    title: chunk.title,
+    headingPath: chunk.headingPath,
+  };
+}
+
+/** Works and titles in the order they first show up in the database. */
+function countByWork(chunks: readonly FinalizedChunk[]): WorkStats[] {
+  const works = new Map<WorkId, Map<string, number>>();
+
+  for (const chunk of chunks) {
+    let titles = works.get(chunk.work);
+    if (titles === undefined) {
+      titles = new Map();
+      works.set(chunk.work, titles);
+    }
+
+    titles.set(chunk.title, (titles.get(chunk.title) ?? 0) + 1);
+  }
+
+  return [...works].map(([work, titles]) => ({
+    work,
+    chunkCount: [...titles.values()].reduce((sum, count) => sum + count, 0),
+    titles: [...titles].map(([title, chunkCount]) => ({ title, chunkCount })),
+  }));
+}
+
+function tokenStats(
+  chunks: readonly FinalizedChunk[],
+  bucketSize: number,
+): TokenStats {
+  const modelMaxTokens = Constant.MODEL_MAX_TOKENS;
+  const tokens = chunks.map((chunk) => chunk.totalTokens).sort((a, b) => a - b);
+
+  if (tokens.length === 0) {
+    return {
+      min: 0,
+      max: 0,
+      mean: 0,
+      median: 0,
+      histogram: [],
+      modelMaxTokens,
+      overModelMaxTokens: 0,
+    };
+  }
+
+  const max = tokens[tokens.length - 1]!;
+  const middle = Math.floor(tokens.length / 2);
+  const median =
+    tokens.length % 2 === 1
+      ? tokens[middle]!
+      : (tokens[middle - 1]! + tokens[middle]!) / 2;
+
+  const counts = new Array<number>(Math.floor(max / bucketSize) + 1).fill(0);
+  for (const count of tokens) {
+    counts[Math.floor(count / bucketSize)]++;
+  }
+
+  return {
+    min: tokens[0]!,
+    max,
+    mean: tokens.reduce((sum, count) => sum + count, 0) / tokens.length,
+    median,
+    histogram: counts.map((count, i) => ({
+      from: i * bucketSize,
+      to: (i + 1) * bucketSize,
+      count,
+    })),
+    modelMaxTokens,
+    overModelMaxTokens: tokens.filter((count) => count > modelMaxTokens).length,
+  };
+}
+
+function findExactDuplicates(chunks: readonly FinalizedChunk[]): ChunkRef[][] {
+  const byText = new Map<string, FinalizedChunk[]>();
+
+  for (const chunk of chunks) {
+    const group = byText.get(chunk.rawText);
+    if (group === undefined) {
+      byText.set(chunk.rawText, [chunk]);
+    } else {
+      group.push(chunk);
+    }
+  }
+
+  return [...byText.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => group.map(chunkRef));
+}
+
+/**
+ * Compares every pair of embeddings, so this is quadratic in the number of
+ * chunks. That's fine for the few thousand chunks we have.
+ */
+function findNearDuplicates(
+  db: ChunkDatabase,
+  threshold: number,
+): Result.Result<NearDuplicate[], string> {
+  const data = db.embeddings.data;
+
+  if (!(data instanceof Float32Array)) {
+    return Result.error("Database embeddings must be a Float32Array");
+  }
+
+  const dimension = db.embeddings.dims[1]!;
+  const rowCount = db.chunks.length;
+
+  // Embeddings are normalized by the pipeline, but lossy encodings can knock
+  // them off a little, so don't count on it.
+  const norms = new Float32Array(rowCount);
+  for (let row = 0; row < rowCount; row++) {
+    let sum = 0;
+    for (let i = row * dimension; i < (row + 1) * dimension; i++) {
+      sum += data[i]! * data[i]!;
+    }
+    norms[row] = Math.sqrt(sum);
+  }
+
+  const pairs: NearDuplicate[] = [];
+
+  for (let a = 0; a < rowCount; a++) {
+    for (let b = a + 1; b < rowCount; b++) {
+      const chunkA = db.chunks[a]!;
+      const chunkB = db.chunks[b]!;
+      if (chunkA.rawText === chunkB.rawText) continue;
+
+      let dot = 0;
+      for (let i = 0; i < dimension; i++) {
+        dot += data[a * dimension + i]! * data[b * dimension + i]!;
+      }
+
+      const similarity = dot / (norms[a]! * norms[b]!);
+      if (similarity >= threshold) {
+        pairs.push({ a: chunkRef(chunkA), b: chunkRef(chunkB), similarity });
+      }
+    }
+  }
+
+  return Result.ok(pairs.sort((x, y) => y.similarity - x.similarity));
+}
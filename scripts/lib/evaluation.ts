@@ -0,0 +1,144 @@
+import * as Zod from "zod";
+import type { FinalizedChunk } from "./finalized-chunk";
+
+/**
+ * A chunk that should come up for a query. Chunks match if they have the
+ * heading path as a prefix of theirs, and contain the text in their
+ * `rawText`. At least one of those has to be given.
+ */
+export const ExpectedChunkSchema = Zod.object({
+  headingPath: Zod.array(Zod.string()).readonly().optional(),
+  text: Zod.string().min(1).optional(),
+})
+  .readonly()
+  .refine((x) => x.headingPath !== undefined || x.text !== undefined, {
+    error: "expected chunks need a headingPath, a text, or both",
+  });
+
+export type ExpectedChunk = Zod.infer<typeof ExpectedChunkSchema>;
+
+export const GoldenQuerySchema = Zod.object({
+  query: Zod.string().min(1),
+  relevant: Zod.array(ExpectedChunkSchema).min(1).readonly(),
+}).readonly();
+
+export type GoldenQuery = Zod.infer<typeof GoldenQuerySchema>;
+
+export const GoldenQuerySetSchema = Zod.object({
+  queries: Zod.array(GoldenQuerySchema).min(1).readonly(),
+}).readonly();
+
+export type GoldenQuerySet = Zod.infer<typeof GoldenQuerySetSchema>;
+
+export function matchesExpected(
+  chunk: FinalizedChunk,
+  expected: ExpectedChunk,
+): boolean {
+  if (
+    expected.headingPath !== undefined &&
+    !expected.headingPath.every(
+      (heading, i) => chunk.headingPath[i] === heading,
+    )
+  ) {
+    return false;
+  }
+
+  if (expected.text !== undefined && !chunk.rawText.includes(expected.text)) {
+    return false;
+  }
+
+  return true;
+}
+
+export interface QueryMetrics {
+  /** Fraction of the expected chunks found in the top `k`, by `k`. */
+  readonly recall: Readonly<Record<number, number>>;
+  /** `1 / rank` of the first relevant result, or 0 if none showed up. */
+  readonly reciprocalRank: number;
+  /** Normalized discounted cumulative gain of the top `ndcgK` results. */
+  readonly ndcg: number;
+}
+
+/**
+ * Scores a ranked list of results against the expected chunks.
+ *
+ * A whole heading's worth of chunks can match one expected chunk, so each
+ * expected chunk only counts the first time it is found. Otherwise a query
+ * could get an nDCG above 1 by finding the same section over and over.
+ */
+export function scoreRanking(
+  results: readonly FinalizedChunk[],
+  expected: readonly ExpectedChunk[],
+  recallKs: readonly number[],
+  ndcgK: number,
+): QueryMetrics {
+  const gains = relevanceGains(results, expected);
+
+  const recall: Record<number, number> = {};
+  for (const k of recallKs) {
+    const topK = results.slice(0, k);
+    const found = expected.filter((item) =>
+      topK.some((chunk) => matchesExpected(chunk, item)),
+    );
+    recall[k] = found.length / expected.length;
+  }
+
+  const firstRelevant = gains.indexOf(1);
+  const reciprocalRank = firstRelevant === -1 ? 0 : 1 / (firstRelevant + 1);
+
+  const idealGains = Array.from(
+    { length: Math.min(expected.length, ndcgK) },
+    () => 1,
+  );
+  const ndcg =
+    discountedCumulativeGain(gains.slice(0, ndcgK)) /
+    discountedCumulativeGain(idealGains);
+
+  return { recall, reciprocalRank, ndcg };
+}
+
+/**
+ * 1 for results that find an expected chunk that no earlier result found, 0
+ * otherwise.
+ */
+function relevanceGains(
+  results: readonly FinalizedChunk[],
+  expected: readonly ExpectedChunk[],
+): number[] {
+  const found = new Set<number>();
+
+  return results.map((chunk) => {
+    const index = expected.findIndex(
+      (item, i) => !found.has(i) && matchesExpected(chunk, item),
+    );
+
+    if (index === -1) return 0;
+
+    found.add(index);
+    return 1;
+  });
+}
+
+function discountedCumulativeGain(gains: readonly number[]): number {
+  return gains.reduce((sum, gain, i) => sum + gain / Math.log2(i + 2), 0);
+}
+
+/** Averages of the per-query metrics. */
+export function meanMetrics(metrics: readonly QueryMetrics[]): QueryMetrics {
+  const mean = (values: number[]) =>
+    values.length === 0
+      ? 0
+      : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const ks = metrics.length === 0 ? [] : Object.keys(metrics[0]!.recall);
+  const recall: Record<number, number> = {};
+  for (const k of ks.map(Number)) {
+    recall[k] = mean(metrics.map((m) => m.recall[k]!));
+  }
+
+  return {
+    recall,
+    reciprocalRank: mean(metrics.map((m) => m.reciprocalRank)),
+    ndcg: mean(metrics.map((m) => m.ndcg)),
+  };
+}
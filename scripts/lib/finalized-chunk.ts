@@ -1,14 +1,57 @@
 import * as Zod from "zod";
-import { WorkSchema } from "./work";
+import { WorkIdSchema } from "./work";
+
+/**
+ * Where something is in a source file. Lines are 1-based and inclusive. Bytes
+ * are offsets into the UTF-8 encoded file, and the end is exclusive.
+ */
+export const SourceRangeSchema = Zod.object({
+  startLine: Zod.int().min(1),
+  endLine: Zod.int().min(1),
+  startByte: Zod.int().min(0),
+  endByte: Zod.int().min(0),
+}).readonly();
+
+export type SourceRange = Zod.infer<typeof SourceRangeSchema>;
 
 export const FinalizedChunkSchema = Zod.object({
   headingPath: Zod.array(Zod.string()).readonly(),
   totalTokens: Zod.number().min(0),
   rawText: Zod.string(),
   markdownText: Zod.string(),
-  work: WorkSchema,
+  work: WorkIdSchema,
   title: Zod.string(),
-  id: Zod.uuidv4(),
+  /**
+   * Content-addressed (see `chunkId`) in new databases, but older ones used
+   * random UUIDs.
+   */
+  id: Zod.string().min(1),
+  /** Link to the chunk's section on the source website, if we know it. */
+  sourceUrl: Zod.url().optional(),
+  /**
+   * The types of the blocks in the chunk, not counting overlap, e.g., `code` or
+   * `list`. Empty when we don't know them.
+   */
+  blockTypes: Zod.array(Zod.string()).readonly(),
+  /**
+   * Indices of the notebook cells the chunk's blocks came from, not counting
+   * overlap. Only set for chunks from notebooks.
+   */
+  cellIndices: Zod.array(Zod.int().min(0)).readonly().optional(),
+  /**
+   * Where the chunk's content, not counting overlap, is in the input file.
+   * Content split out of a bigger node, e.g., a long paragraph or code block,
+   * has the range of the whole node.
+   *
+   * Only set for markdown and text files, and only when their nodes map back
+   * onto the file. The other inputs are converted before they are parsed.
+   */
+  sourceRange: SourceRangeSchema.optional(),
+  /**
+   * How many characters at the start of `markdownText` are overlap from the
+   * chunk before, so that the UI can set them apart. Not set without overlap.
+   */
+  overlapLength: Zod.int().min(1).optional(),
 })
   .readonly()
   .refine((x) => x.rawText.length >= x.totalTokens, {
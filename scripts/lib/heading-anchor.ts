@@ -0,0 +1,123 @@
+/**
+ * Heading anchors, i.e., the `id`s that the rendered book pages give their
+ * section headings, so we can link straight to a section.
+ *
+ * The book is rendered with Quarto, which uses Pandoc's identifier rules:
+ * https://pandoc.org/MANUAL.html#extension-auto_identifiers
+ *
+ * The Python docs are reStructuredText rendered with Sphinx, which uses the
+ * Docutils rules instead.
+ */
+
+export interface HeadingText {
+  /** The heading text without any trailing attribute block. */
+  readonly text: string;
+  /** The `#id` from the attribute block, if there was one. */
+  readonly explicitId: string | undefined;
+}
+
+/**
+ * Split off a trailing Pandoc/Quarto attribute block, e.g.,
+ * `Basics {#sec-basics .unnumbered}`.
+ */
+export function parseHeadingText(text: string): HeadingText {
+  const match = text.match(/\s*\{([^{}]*)\}\s*$/);
+
+  // Only treat it as attributes if it looks like some, so that headings that
+  // just happen to end in braces (`Dictionaries {}`) are left alone.
+  if (!match || !/^\s*[#.]/.test(match[1]!)) {
+    return { text, explicitId: undefined };
+  }
+
+  const id = match[1]!.match(/(?:^|\s)#([^\s}]+)/)?.[1];
+
+  return { text: text.slice(0, match.index), explicitId: id };
+}
+
+/** Pandoc's automatic identifier for the given heading text. */
+export function slugify(text: string): string {
+  const slug = text
+    // Remove everything but letters, numbers, `_`, `-`, `.`, and whitespace
+    .replace(/[^\p{L}\p{N}_\-.\s]/gu, "")
+    .trim()
+    .split(/\s+/)
+    .join("-")
+    .toLowerCase()
+    // Identifiers have to start with a letter
+    .replace(/^[^\p{L}]+/u, "");
+
+  return slug.length > 0 ? slug : "section";
+}
+
+/**
+ * Makes the anchors for the headings of one document.
+ *
+ * Like Pandoc, automatic identifiers that were already used in the document get
+ * a numeric suffix (`-1`, `-2`, etc.). Explicit IDs are used as is.
+ */
+export function createAnchorMaker(): (heading: HeadingText) => string {
+  const used = new Set<string>();
+
+  return (heading) => {
+    if (heading.explicitId !== undefined) {
+      used.add(heading.explicitId);
+      return heading.explicitId;
+    }
+
+    const slug = slugify(heading.text);
+    let anchor = slug;
+    for (let i = 1; used.has(anchor); i++) {
+      anchor = `${slug}-${i}`;
+    }
+
+    used.add(anchor);
+    return anchor;
+  };
+}
+
+/**
+ * Docutils' identifier for the given section title.
+ *
+ * Accents are dropped, anything else that isn't a letter or number becomes a
+ * hyphen, and identifiers have to start with a letter.
+ */
+export function docutilsId(text: string): string {
+  const id = text
+    .normalize("NFKD")
+    .replace(/[^\p{ASCII}]/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^[^a-z]+/, "")
+    .replace(/-+$/, "");
+
+  return id.length > 0 ? id : "section";
+}
+
+/**
+ * Like `createAnchorMaker`, but with Docutils' identifiers. Docutils doesn't
+ * number repeated identifiers, and gives them the next free `id1`, `id2`, etc.
+ * instead.
+ */
+export function createDocutilsAnchorMaker(): (heading: HeadingText) => string {
+  const used = new Set<string>();
+  let counter = 0;
+
+  return (heading) => {
+    let anchor = heading.explicitId ?? docutilsId(heading.text);
+    while (used.has(anchor)) {
+      counter++;
+      anchor = `id${counter}`;
+    }
+
+    used.add(anchor);
+    return anchor;
+  };
+}
+
+/** Link to the anchor on the page at `baseUrl`. */
+export function sectionUrl(baseUrl: string, anchor: string | undefined) {
+  const url = new URL(baseUrl);
+  if (anchor !== undefined) url.hash = anchor;
+
+  return url.toString();
+}
@@ -0,0 +1,572 @@
+/**
+ * Converts rendered HTML pages (Quarto sites, Sphinx output) to a markdown
+ * syntax tree, so that they can go through `parseSemanticBlocks` and
+ * `chunkWithContext` like the markdown files do.
+ *
+ * Only the main content of the page is kept. The elements we care about map
+ * onto markdown nodes:
+ *
+ * - `h1`–`h6` to headings, keeping the `id` of the heading or of its section
+ * - `pre` to code blocks
+ * - `p` to paragraphs
+ * - `ul` and `ol` to lists
+ * - `table` to tables, with their caption as a paragraph before them
+ * - Quarto callouts and Sphinx admonitions to block quotes, like the rST ones
+ *
+ * Everything else is either unwrapped or dropped.
+ */
+
+import type { Element, ElementContent, Root as HastRoot } from "hast";
+import { fromHtml } from "hast-util-from-html";
+import { toString } from "hast-util-to-string";
+import type {
+  BlockContent,
+  Blockquote,
+  Code,
+  Heading,
+  List,
+  ListItem,
+  Paragraph,
+  PhrasingContent,
+  Root,
+  Table,
+  TableRow,
+} from "mdast";
+
+/**
+ * Where the main content is, most specific first. Quarto puts it in `main`,
+ * and Sphinx themes in `[role=main]`.
+ */
+const MAIN_CONTENT: readonly ((element: Element) => boolean)[] = [
+  (element) => element.tagName === "main",
+  (element) => element.properties.role === "main",
+  (element) => element.tagName === "article",
+  (element) => element.tagName === "body",
+];
+
+/** Elements that are never content. */
+const SKIPPED_TAGS = new Set([
+  "button",
+  "footer",
+  "form",
+  "iframe",
+  "img",
+  "input",
+  "nav",
+  "noscript",
+  "script",
+  "style",
+  "svg",
+  "template",
+]);
+
+/** Classes of elements that are page furniture rather than content. */
+const SKIPPED_CLASSES = new Set([
+  // The `¶` and `#` links next to headings
+  "anchorjs-link",
+  "headerlink",
+]);
+
+const HEADING_DEPTHS: Readonly<Record<string, Heading["depth"]>> = {
+  h1: 1,
+  h2: 2,
+  h3: 3,
+  h4: 4,
+  h5: 5,
+  h6: 6,
+};
+
+interface Context {
+  /** Language of code blocks, from a Sphinx `highlight-*` wrapper. */
+  readonly language: string | null;
+}
+
+export function parseHtml(html: string): Root {
+  const tree = fromHtml(html);
+  const main = findMainContent(tree);
+
+  return {
+    type: "root",
+    children: main === undefined ? [] : blockChildren(main, { language: null }),
+  };
+}
+
+function findMainContent(tree: HastRoot): Element | undefined {
+  for (const isMain of MAIN_CONTENT) {
+    const main = findElement(tree, isMain);
+    if (main !== undefined) return main;
+  }
+
+  return undefined;
+}
+
+function findElement(
+  node: HastRoot | Element,
+  predicate: (element: Element) => boolean,
+): Element | undefined {
+  for (const child of node.children) {
+    if (child.type !== "element") continue;
+    if (predicate(child)) return child;
+
+    const found = findElement(child, predicate);
+    if (found !== undefined) return found;
+  }
+
+  return undefined;
+}
+
+// Blocks
+
+/**
+ * Converts the children of a block container. Runs of inline content, e.g.,
+ * the text of a `<li>` without a `<p>`, become paragraphs.
+ */
+function blockChildren(parent: Element, context: Context): BlockContent[] {
+  const blocks: BlockContent[] = [];
+  let inline: ElementContent[] = [];
+
+  const flushInline = () => {
+    const paragraph = paragraphNode(inline);
+    if (paragraph !== undefined) blocks.push(paragraph);
+    inline = [];
+  };
+
+  for (const child of parent.children) {
+    if (isSkipped(child)) continue;
+
+    if (child.type === "element" && isBlockElement(child)) {
+      flushInline();
+      blocks.push(...blockElement(child, parent, context));
+    } else {
+      inline.push(child);
+    }
+  }
+
+  flushInline();
+
+  return blocks;
+}
+
+function blockElement(
+  element: Element,
+  parent: Element,
+  context: Context,
+): BlockContent[] {
+  const depth = HEADING_DEPTHS[element.tagName];
+  if (depth !== undefined) {
+    return [heading(element, parent, depth)];
+  }
+
+  switch (element.tagName) {
+    case "p": {
+      const paragraph = paragraphNode(element.children);
+      return paragraph === undefined ? [] : [paragraph];
+    }
+    case "pre":
+      return [code(element, context)];
+    case "ul":
+    case "ol":
+      return [list(element, context)];
+    case "table": {
+      // The caption goes right before the table, where it works as context
+      // for the table when it gets split up.
+      const caption = element.children.find(
+        (child) => child.type === "element" && child.tagName === "caption",
+      ) as Element | undefined;
+      const paragraph =
+        caption === undefined ? undefined : paragraphNode(caption.children);
+
+      return paragraph === undefined
+        ? [table(element)]
+        : [paragraph, table(element)];
+    }
+    case "blockquote":
+      return [blockquote(blockChildren(element, context))];
+    case "hr":
+      return [];
+  }
+
+  const callout = calloutTitle(element);
+  if (callout !== undefined) {
+    return [admonition(callout, context)];
+  }
+
+  // Anything else is a wrapper, like `div`, `section`, `dl`, or `figure`.
+  const language = highlightLanguage(element) ?? context.language;
+  return blockChildren(element, { language });
+}
+
+function heading(
+  element: Element,
+  parent: Element,
+  depth: Heading["depth"],
+): Heading {
+  // Quarto and Sphinx put the id on the section rather than on the heading.
+  const id =
+    stringProperty(element, "id") ??
+    (isSection(parent) && firstElementChild(parent) === element
+      ? stringProperty(parent, "id")
+      : undefined);
+
+  return {
+    type: "heading",
+    depth,
+    children: phrasingContent(element.children),
+    data: id === undefined ? undefined : { id },
+  };
+}
+
+function code(element: Element, context: Context): Code {
+  const codeElement = element.children.find(
+    (child) => child.type === "element" && child.tagName === "code",
+  ) as Element | undefined;
+
+  const lang =
+    codeLanguage(codeElement) ?? codeLanguage(element) ?? context.language;
+
+  return {
+    type: "code",
+    lang,
+    value: toString(element).replace(/\n$/, ""),
+  };
+}
+
+function list(element: Element, context: Context): List {
+  const ordered = element.tagName === "ol";
+  const start = Number(element.properties.start);
+
+  const items: ListItem[] = element.children
+    .filter((child) => child.type === "element" && child.tagName === "li")
+    .map((item) => ({
+      type: "listItem",
+      spread: false,
+      children: blockChildren(item as Element, context),
+    }));
+
+  return {
+    type: "list",
+    ordered,
+    start: ordered ? (Number.isInteger(start) ? start : 1) : undefined,
+    spread: false,
+    children: items,
+  };
+}
+
+/**
+ * Tables keep their header row, if they have one, and their body rows. Cells
+ * spanning several columns are only counted once.
+ *
+ * The first row is only the header if it's in a `thead` or made of `th`
+ * cells. Otherwise the table gets an empty header row, so that the first data
+ * row isn't repeated as the header when the table is split up.
+ */
+function table(element: Element): Table {
+  const rowElements = descendants(element, "tr");
+  const rows: TableRow[] = rowElements.map((row) => ({
+    type: "tableRow",
+    children: tableCells(row).map((cell) => ({
+      type: "tableCell",
+      children: phrasingContent(cell.children),
+    })),
+  }));
+
+  const first = rowElements[0];
+  if (first === undefined) return { type: "table", children: rows };
+
+  const headRows = descendants(element, "thead").flatMap((head) =>
+    descendants(head, "tr"),
+  );
+  const firstCells = tableCells(first);
+  const hasHeader =
+    headRows.includes(first) ||
+    (firstCells.length > 0 &&
+      firstCells.every((cell) => cell.tagName === "th"));
+  if (hasHeader) return { type: "table", children: rows };
+
+  const columns = Math.max(...rows.map((row) => row.children.length));
+  const emptyHeader: TableRow = {
+    type: "tableRow",
+    children: Array.from({ length: columns }, () => ({
+      type: "tableCell",
+      children: [],
+    })),
+  };
+
+  return { type: "table", children: [emptyHeader, ...rows] };
+}
+
+function tableCells(row: Element): Element[] {
+  return row.children.filter(
+    (cell): cell is Element =>
+      cell.type === "element" &&
+      (cell.tagName === "th" || cell.tagName === "td"),
+  );
+}
+
+interface Callout {
+  readonly title: string;
+  readonly body: readonly ElementContent[];
+  /** For Quarto callouts, the type of callout, e.g., `callout-tip`. */
+  readonly type?: string | undefined;
+}
+
+/**
+ * Quarto callouts have a `callout-header` with the title and a
+ * `callout-body-container`. Sphinx admonitions start with an
+ * `admonition-title` paragraph.
+ */
+function calloutTitle(element: Element): Callout | undefined {
+  const classes = classNames(element);
+
+  if (classes.includes("callout")) {
+    const header = findElement(element, (child) =>
+      classNames(child).includes("callout-header"),
+    );
+    const body = findElement(element, (child) =>
+      classNames(child).includes("callout-body-container"),
+    );
+    const type = classes
+      .find((name) =>
+        /^callout-(note|tip|warning|caution|important)$/.test(name),
+      )
+      ?.slice("callout-".length);
+
+    const title =
+      (header && normalizeSpace(toString(header)).trim()) ||
+      (type === undefined ? "Note" : capitalize(type));
+
+    return {
+      title,
+      body: body?.children ?? [],
+      type: type === undefined ? undefined : `callout-${type}`,
+    };
+  }
+
+  if (classes.includes("admonition")) {
+    const titleElement = element.children.find(
+      (child) =>
+        child.type === "element" &&
+        classNames(child).includes("admonition-title"),
+    );
+    const title =
+      titleElement === undefined
+        ? "Note"
+        : normalizeSpace(toString(titleElement)).trim();
+
+    return {
+      title,
+      body: element.children.filter((child) => child !== titleElement),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Like callouts in markdown, Quarto callouts record their type, so that they
+ * get the same block type either way.
+ */
+function admonition(
+  { title, body, type }: Callout,
+  context: Context,
+): Blockquote {
+  const titleParagraph: Paragraph = {
+    type: "paragraph",
+    children: [{ type: "strong", children: [{ type: "text", value: title }] }],
+  };
+  const wrapper: Element = {
+    type: "element",
+    tagName: "div",
+    properties: {},
+    children: [...body],
+  };
+
+  const quote = blockquote([
+    titleParagraph,
+    ...blockChildren(wrapper, context),
+  ]);
+  return type === undefined ? quote : { ...quote, data: { callout: type } };
+}
+
+function blockquote(children: BlockContent[]): Blockquote {
+  return { type: "blockquote", children };
+}
+
+// Inline content
+
+function paragraphNode(
+  children: readonly ElementContent[],
+): Paragraph | undefined {
+  const phrasing = phrasingContent(children);
+  return phrasing.length === 0
+    ? undefined
+    : { type: "paragraph", children: phrasing };
+}
+
+/**
+ * Converts inline content, collapsing whitespace the way a browser would and
+ * trimming it off the ends.
+ */
+function phrasingContent(
+  children: readonly ElementContent[],
+): PhrasingContent[] {
+  const nodes = children.flatMap(inlineNode);
+
+  const first = nodes[0];
+  if (first?.type === "text") first.value = first.value.trimStart();
+  const last = nodes.at(-1);
+  if (last?.type === "text") last.value = last.value.trimEnd();
+
+  return nodes.filter((node) => node.type !== "text" || node.value.length > 0);
+}
+
+function inlineNode(node: ElementContent): PhrasingContent[] {
+  if (node.type === "text") {
+    return [{ type: "text", value: normalizeSpace(node.value) }];
+  }
+
+  if (node.type !== "element" || isSkipped(node)) {
+    return [];
+  }
+
+  switch (node.tagName) {
+    case "code":
+    case "kbd":
+    case "samp":
+      return [{ type: "inlineCode", value: normalizeSpace(toString(node)) }];
+    case "em":
+    case "i":
+      return [
+        { type: "emphasis", children: node.children.flatMap(inlineNode) },
+      ];
+    case "strong":
+    case "b":
+      return [{ type: "strong", children: node.children.flatMap(inlineNode) }];
+    case "br":
+      return [{ type: "break" }];
+    case "a": {
+      const children = node.children.flatMap(inlineNode);
+      const href = stringProperty(node, "href");
+
+      // Links within the site would be broken out of context.
+      return href !== undefined && /^([a-z]+:\/\/|mailto:)/i.test(href)
+        ? [{ type: "link", url: href, children }]
+        : children;
+    }
+  }
+
+  return node.children.flatMap(inlineNode);
+}
+
+// Helpers
+
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "dd",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "ul",
+]);
+
+function isBlockElement(element: Element): boolean {
+  return BLOCK_TAGS.has(element.tagName);
+}
+
+function isSkipped(node: ElementContent): boolean {
+  if (node.type === "comment") return true;
+  if (node.type !== "element") return false;
+
+  return (
+    SKIPPED_TAGS.has(node.tagName) ||
+    node.properties.hidden !== undefined ||
+    classNames(node).some((name) => SKIPPED_CLASSES.has(name))
+  );
+}
+
+function classNames(element: Element): string[] {
+  const className = element.properties.className;
+  return Array.isArray(className) ? className.map(String) : [];
+}
+
+function stringProperty(element: Element, name: string): string | undefined {
+  const value = element.properties[name];
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+/** Older Sphinx versions use `div.section` instead of `section`. */
+function isSection(element: Element): boolean {
+  return (
+    element.tagName === "section" || classNames(element).includes("section")
+  );
+}
+
+function firstElementChild(element: Element): Element | undefined {
+  return element.children.find((child) => child.type === "element");
+}
+
+function descendants(element: Element, tagName: string): Element[] {
+  return element.children.flatMap((child) => {
+    if (child.type !== "element") return [];
+    if (child.tagName === tagName) return [child];
+    // Don't pick up the rows of nested tables.
+    if (child.tagName === "table") return [];
+    return descendants(child, tagName);
+  });
+}
+
+/** `language-python` (Pandoc, Quarto) or `sourceCode python` (Quarto). */
+function codeLanguage(element: Element | undefined): string | null {
+  if (element === undefined) return null;
+
+  const classes = classNames(element);
+  const prefixed = classes.find((name) => name.startsWith("language-"));
+  if (prefixed !== undefined) return prefixed.slice("language-".length);
+
+  if (classes[0] === "sourceCode" && classes[1] !== undefined) {
+    return classes[1];
+  }
+
+  return null;
+}
+
+/** Sphinx wraps code blocks in a `highlight-python3` or similar `div`. */
+function highlightLanguage(element: Element): string | undefined {
+  const language = classNames(element)
+    .find((name) => name.startsWith("highlight-"))
+    ?.slice("highlight-".length);
+
+  if (language === "default" || language === "python3") return "python";
+
+  return language;
+}
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, " ");
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
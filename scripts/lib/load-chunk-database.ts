@@ -0,0 +1,40 @@
+import * as Fs from "node:fs";
+import * as Path from "node:path";
+import * as Result from "../../shared/result";
+import * as ChunkDb from "./chunk-database";
+
+/**
+ * Read a serialized chunk database from disk.
+ *
+ * If the JSON references a binary embeddings file, it is read from the same
+ * directory as the JSON file.
+ */
+export function loadChunkDatabase(
+  path: string,
+): Result.Result<ChunkDb.ChunkDatabase, string> {
+  let json;
+  try {
+    json = JSON.parse(Fs.readFileSync(path, "utf8"));
+  } catch (error) {
+    return Result.error(`Failed to read chunk database ${path}: ${error}`);
+  }
+
+  const embeddingsFile = ChunkDb.binaryEmbeddingsFile(json);
+  if (embeddingsFile === undefined) {
+    return ChunkDb.deserializeChunkDatabase(json);
+  }
+
+  const embeddingsPath = Path.join(Path.dirname(path), embeddingsFile);
+  let embeddings;
+  try {
+    // Copy into a fresh ArrayBuffer since the Buffer may be a view into a
+    // larger shared pool.
+    embeddings = new Uint8Array(Fs.readFileSync(embeddingsPath)).buffer;
+  } catch (error) {
+    return Result.error(
+      `Failed to read chunk database embeddings ${embeddingsPath}: ${error}`,
+    );
+  }
+
+  return ChunkDb.deserializeChunkDatabase(json, embeddings);
+}
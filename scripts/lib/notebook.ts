@@ -0,0 +1,113 @@
+import * as Zod from "zod";
+import * as Result from "../../shared/result";
+
+// Just the parts of the nbformat 4 schema that we use.
+
+/** Notebook text is either a string or a list of lines. */
+const MultilineStringSchema = Zod.union([
+  Zod.string(),
+  Zod.array(Zod.string()),
+]).transform((x) => (Array.isArray(x) ? x.join("") : x));
+
+const OutputSchema = Zod.object({
+  output_type: Zod.string(),
+  /** For `stream` outputs. */
+  text: MultilineStringSchema.optional(),
+  /** For `execute_result` and `display_data` outputs, by MIME type. */
+  data: Zod.record(Zod.string(), Zod.unknown()).optional(),
+});
+
+const CellSchema = Zod.object({
+  cell_type: Zod.enum(["markdown", "code", "raw"]),
+  source: MultilineStringSchema,
+  outputs: Zod.array(OutputSchema).optional(),
+});
+
+const NotebookSchema = Zod.object({
+  cells: Zod.array(CellSchema),
+  metadata: Zod.object({
+    kernelspec: Zod.object({ language: Zod.string().optional() }).optional(),
+    language_info: Zod.object({ name: Zod.string().optional() }).optional(),
+  }).optional(),
+});
+
+/** Language of the code cells when the notebook doesn't say. */
+const DEFAULT_LANGUAGE = "python";
+
+/** A piece of a notebook cell that gets turned into semantic blocks. */
+export interface NotebookPart {
+  readonly type: "markdown" | "code" | "output";
+  readonly cellIndex: number;
+  readonly text: string;
+}
+
+export interface Notebook {
+  /** Language of the code cells. */
+  readonly language: string;
+  readonly parts: readonly NotebookPart[];
+}
+
+/**
+ * Picks the markdown and code out of a parsed notebook JSON file, and the text
+ * outputs of the code cells if `keepOutputs` is set.
+ *
+ * Raw cells and empty cells are skipped, but the cell indices still count
+ * them, so they match the cells in the notebook.
+ */
+export function parseNotebook(
+  json: unknown,
+  keepOutputs: boolean,
+): Result.Result<Notebook, string> {
+  const result = NotebookSchema.safeParse(json);
+
+  if (!result.success) {
+    return Result.error(`Invalid notebook: ${result.error}`);
+  }
+
+  const { cells, metadata } = result.data;
+  const language =
+    metadata?.kernelspec?.language ??
+    metadata?.language_info?.name ??
+    DEFAULT_LANGUAGE;
+
+  const parts: NotebookPart[] = [];
+  cells.forEach((cell, cellIndex) => {
+    if (cell.cell_type === "raw" || cell.source.trim() === "") return;
+
+    parts.push({ type: cell.cell_type, cellIndex, text: cell.source });
+
+    if (cell.cell_type === "code" && keepOutputs) {
+      for (const output of cell.outputs ?? []) {
+        const text = outputText(output);
+
+        if (text !== undefined && text.trim() !== "") {
+          parts.push({ type: "output", cellIndex, text });
+        }
+      }
+    }
+  });
+
+  return Result.ok({ language, parts });
+}
+
+/**
+ * The plain text of an output, if it has any. Errors are left out, since
+ * tracebacks are mostly terminal escape codes and aren't much use for search.
+ */
+function outputText(
+  output: Zod.infer<typeof OutputSchema>,
+): string | undefined {
+  if (output.output_type === "stream") {
+    return output.text;
+  }
+
+  if (
+    output.output_type === "execute_result" ||
+    output.output_type === "display_data"
+  ) {
+    const text = MultilineStringSchema.safeParse(output.data?.["text/plain"]);
+    return text.success ? text.data : undefined;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,69 @@
+/**
+ * How chunks overlap, for both the markdown and the plain text chunkers.
+ *
+ * The end of each chunk is repeated at the start of the next one, so that
+ * something that's cut in two is still whole in one of them. Overlap is taken
+ * from the end of the chunk: whole blocks, as long as they fit in the overlap
+ * tokens, and then the last sentences or lines of the block before those.
+ */
+
+/** A block or segment of a chunk, as far as overlap is concerned. */
+export interface OverlapUnit {
+  readonly tokens: number;
+}
+
+/**
+ * Takes the overlap for the next chunk from the end of `units`.
+ *
+ * `tail` gives the longest end of a unit that fits in `maxTokens`, if there's
+ * any part of it that does.
+ */
+export async function takeOverlap<T extends OverlapUnit>(
+  units: readonly T[],
+  maxTokens: number,
+  tail: (unit: T, maxTokens: number) => Promise<T | undefined>,
+): Promise<T[]> {
+  const overlap: T[] = [];
+  let tokens = 0;
+
+  // Work backwards from the end
+  for (let i = units.length - 1; i >= 0; i--) {
+    const unit = units[i]!;
+
+    if (tokens + unit.tokens <= maxTokens) {
+      overlap.unshift(unit);
+      tokens += unit.tokens;
+      continue;
+    }
+
+    // The rest of the overlap is part of this unit.
+    const part = await tail(unit, maxTokens - tokens);
+    if (part !== undefined) {
+      overlap.unshift(part);
+    }
+    break;
+  }
+
+  return overlap;
+}
+
+/**
+ * How many of the `pieces` at the end, e.g., sentences or lines, fit in
+ * `maxTokens` together. `measure` counts the tokens in some of the pieces.
+ */
+export async function countTailPieces<P>(
+  pieces: readonly P[],
+  maxTokens: number,
+  measure: (pieces: readonly P[]) => Promise<number>,
+): Promise<number> {
+  let count = 0;
+
+  while (
+    count < pieces.length &&
+    (await measure(pieces.slice(pieces.length - count - 1))) <= maxTokens
+  ) {
+    count++;
+  }
+
+  return count;
+}
@@ -1,31 +1,74 @@
-import {
-  type Code,
-  type Heading,
-  type List,
-  type Root,
-  type RootContent,
+import type {
+  Code,
+  Heading,
+  List,
+  Paragraph,
+  Root,
+  RootContent,
+  Table,
+  TableRow,
 } from "mdast";
-import { toMarkdown } from "mdast-util-to-markdown";
+import { gfmToMarkdown } from "mdast-util-gfm";
+import { toMarkdown, type Options } from "mdast-util-to-markdown";
 import { toString } from "mdast-util-to-string";
-import { MAX_TOKENS, TARGET_TOKENS } from "../../shared/constants";
-import { type SemanticBlock } from "./chunk-with-context";
+import type { SemanticBlock } from "./chunk-with-context";
+import type { ChunkingProfile } from "./chunking-profile";
+import {
+  createAnchorMaker,
+  type HeadingText,
+  parseHeadingText,
+} from "./heading-anchor";
+import { countTailPieces } from "./overlap";
+import { joinSentences, splitSentences } from "./sentences";
 import { countTokens } from "./tokens";
 
+declare module "mdast" {
+  interface HeadingData {
+    /**
+     * The `id` of the heading on the rendered page, for headings whose `id`
+     * isn't in their text, e.g., ones from HTML pages.
+     */
+    id?: string | undefined;
+  }
+
+  interface BlockquoteData {
+    /** For block quotes that are Quarto callouts, the type of callout. */
+    callout?: string | undefined;
+  }
+}
+
+/** Markdown is parsed with GFM, so it has to be written back out with it too. */
+const TO_MARKDOWN_OPTIONS: Options = { extensions: [gfmToMarkdown()] };
+
 /** Parse the root of the markdown tree into an array of `SemanticBlocks`.
  *
  * Does a semi-reasonable job of keeping "atomic" units together, and well as
- * ensuring that blocks don't have too many tokens in them.
+ * ensuring that blocks don't have too many tokens in them. The sizes, and the
+ * types of nodes to skip, come from the `profile`.
+ *
+ * Pass in `makeAnchor` when several trees end up on the same page, so that
+ * their heading anchors don't collide.
  */
 export async function parseSemanticBlocks(
   tree: Root,
+  profile: ChunkingProfile,
+  makeAnchor: (heading: HeadingText) => string = createAnchorMaker(),
 ): Promise<readonly SemanticBlock[]> {
-  const nodeToSemanticBlocks = async (node: RootContent) => {
+  const nodeToSemanticBlocks = async (node: RootContent, index: number) => {
     if (node.type === "yaml") {
       return [];
     }
 
+    // Either the type of node, or of block, e.g., `callout-tip`
+    if (
+      profile.skipNodeTypes.includes(node.type) ||
+      profile.skipNodeTypes.includes(blockType(node))
+    ) {
+      return [];
+    }
+
     if (node.type === "heading") {
-      const block = await headingNodeToSemanticBlock(node);
+      const block = await headingNodeToSemanticBlock(node, makeAnchor);
       return [block];
     }
 
@@ -33,12 +76,20 @@ export async function parseSemanticBlocks(
       return splitListIntoBlocks(node);
     }
 
-    return splitRegularNodeIntoBlocks(node);
+    if (node.type === "table") {
+      return splitTableIntoBlocks(
+        node,
+        tableContext(tree.children, index),
+        profile,
+      );
+    }
+
+    return splitRegularNodeIntoBlocks(node, profile);
   };
 
   const allBlocks: SemanticBlock[] = [];
-  for (const node of tree.children) {
-    const blocks = await nodeToSemanticBlocks(node);
+  for (const [index, node] of tree.children.entries()) {
+    const blocks = await nodeToSemanticBlocks(node, index);
     allBlocks.push(...blocks);
   }
 
@@ -47,9 +98,21 @@ export async function parseSemanticBlocks(
 
 async function headingNodeToSemanticBlock(
   node: Heading,
+  makeAnchor: (heading: HeadingText) => string,
 ): Promise<SemanticBlock> {
-  const text = toString(node);
-  const markdown = toMarkdown({ type: "root", children: [node] });
+  // Quarto headings can end with an attribute block like `{#sec-basics}`. We
+  // want that for the anchor, but not in the text.
+  // Headings from HTML pages have the id of their section instead.
+  const parsedText = parseHeadingText(toString(node));
+  const headingText = {
+    ...parsedText,
+    explicitId: parsedText.explicitId ?? node.data?.id,
+  };
+  const text = headingText.text;
+  const markdown = toMarkdown(
+    { type: "root", children: [node] },
+    TO_MARKDOWN_OPTIONS,
+  );
 
   const heading = {
     type: "heading",
@@ -57,7 +120,11 @@ async function headingNodeToSemanticBlock(
     text,
     markdown,
     tokens: await countTokens(text),
+    position: node.position,
+    // A heading without its content is no use on its own.
+    keepWithNext: true,
     headingLevel: node.depth,
+    anchor: makeAnchor(headingText),
   };
 
   return heading;
@@ -82,10 +149,10 @@ async function splitListIntoBlocks(
       children: [item],
     };
 
-    const markdown = toMarkdown({
-      type: "root",
-      children: [list],
-    });
+    const markdown = toMarkdown(
+      { type: "root", children: [list] },
+      TO_MARKDOWN_OPTIONS,
+    );
 
     semanticBlocks.push({
       type: "listItem",
@@ -93,37 +160,256 @@ async function splitListIntoBlocks(
       text,
       markdown,
       tokens: await countTokens(text),
+      position: item.position,
     });
   }
 
   return semanticBlocks;
 }
 
+/**
+ * Tables are embedded as markdown, since their plain text would run all of the
+ * cells together.
+ *
+ * Oversized tables are split into groups of rows, each of which repeats the
+ * header row and starts with the `context` of the table, so that they make
+ * sense on their own.
+ */
+async function splitTableIntoBlocks(
+  node: Table,
+  context: string | undefined,
+  profile: ChunkingProfile,
+): Promise<readonly SemanticBlock[]> {
+  const markdown = toMarkdown(
+    { type: "root", children: [node] },
+    TO_MARKDOWN_OPTIONS,
+  );
+  const tokens = await countTokens(markdown);
+
+  if (tokens > profile.maxTokens) {
+    const result = await trySplitTable(node, context, profile.targetTokens);
+    if (result) return result;
+  }
+
+  // Can't split: return as-is and let embedding model truncate
+  return [
+    {
+      type: "table",
+      node,
+      text: markdown,
+      markdown,
+      tokens,
+      position: node.position,
+    },
+  ];
+}
+
+/**
+ * The caption of the table at `index`, or else the last sentence of the
+ * paragraph before it, which usually introduces the table.
+ *
+ * Pandoc captions are paragraphs starting with `:` or `Table:` right after or
+ * before the table.
+ */
+function tableContext(
+  siblings: readonly RootContent[],
+  index: number,
+): string | undefined {
+  const before = siblings[index - 1];
+  const after = siblings[index + 1];
+
+  for (const sibling of [after, before]) {
+    if (sibling?.type !== "paragraph") continue;
+
+    const caption = toString(sibling).match(/^(?:Table)?:\s+(.+)$/s)?.[1];
+    // Captions can have attributes like headings, e.g., `{#tbl-letters}`.
+    if (caption !== undefined) return parseHeadingText(caption).text;
+  }
+
+  if (before?.type === "paragraph") {
+    return toString(before)
+      .split(/(?<=[.!?:])\s+/)
+      .at(-1);
+  }
+
+  return undefined;
+}
+
+/**
+ * Attempts to split a table into groups of rows that stay below
+ * `targetTokens`. Returns null if splitting is not successful.
+ */
+async function trySplitTable(
+  node: Table,
+  context: string | undefined,
+  targetTokens: number,
+): Promise<readonly SemanticBlock[] | null> {
+  const [header, ...rows] = node.children;
+
+  if (header === undefined || rows.length <= 1) {
+    return null;
+  }
+
+  // Count the tokens of each row once, rather than the whole group every time
+  // it grows. Every row of a table is one line of its markdown, padded to the
+  // widths of the whole table, so groups come out a little smaller than their
+  // counts say.
+  const lines = toMarkdown(
+    { type: "root", children: [node] },
+    TO_MARKDOWN_OPTIONS,
+  )
+    .trimEnd()
+    .split("\n");
+
+  if (lines.length !== rows.length + 2) {
+    return null;
+  }
+
+  // The header row and the delimiter row under it
+  const headerText = lines.slice(0, 2).join("\n");
+  const headerTokens = await countTokens(
+    context === undefined ? headerText : `${context}\n\n${headerText}`,
+  );
+
+  const groups: TableRow[][] = [];
+  let currentGroup: TableRow[] = [];
+  let currentTokens = headerTokens;
+
+  for (const [i, row] of rows.entries()) {
+    const rowTokens = await countTokens(lines[i + 2]!);
+
+    // Start a new group with this row if it would put the group over the
+    // target. A group with just one row is as small as it gets, though.
+    if (currentGroup.length > 0 && currentTokens + rowTokens > targetTokens) {
+      groups.push(currentGroup);
+      currentGroup = [];
+      currentTokens = headerTokens;
+    }
+
+    currentGroup.push(row);
+    currentTokens += rowTokens;
+  }
+
+  if (currentGroup.length > 0) {
+    groups.push(currentGroup);
+  }
+
+  if (groups.length <= 1) {
+    return null;
+  }
+
+  const blocks: SemanticBlock[] = [];
+  for (const group of groups) {
+    blocks.push(await createTableBlockFromRows(header, group, node, context));
+  }
+
+  return blocks;
+}
+
+/**
+ * Creates a SemanticBlock from the header row and some of the other rows of
+ * the `originalNode`. Its position is still the one of the whole table.
+ */
+async function createTableBlockFromRows(
+  header: TableRow,
+  rows: readonly TableRow[],
+  originalNode: Table,
+  context: string | undefined,
+): Promise<SemanticBlock> {
+  const chunkNode: Table = {
+    type: "table",
+    align: originalNode.align,
+    children: [header, ...rows],
+  };
+  const markdown = toMarkdown(
+    { type: "root", children: [chunkNode] },
+    TO_MARKDOWN_OPTIONS,
+  );
+  const text = context === undefined ? markdown : `${context}\n\n${markdown}`;
+
+  return {
+    type: "table",
+    node: chunkNode,
+    text,
+    markdown,
+    tokens: await countTokens(text),
+    position: originalNode.position,
+  };
+}
+
 async function splitRegularNodeIntoBlocks(
   node: RootContent,
+  profile: ChunkingProfile,
 ): Promise<readonly SemanticBlock[]> {
   // "Regular" blocks, like paragraph, code, blockquote, table, etc.
   const text = toString(node);
-  const markdown = toMarkdown({ type: "root", children: [node] });
+  const markdown = toMarkdown(
+    { type: "root", children: [node] },
+    TO_MARKDOWN_OPTIONS,
+  );
   const tokens = await countTokens(text);
 
   // Try to split oversized blocks, but if we can't just roll with it and let
   // the downstream encoding system truncate it.
-  if (tokens > MAX_TOKENS) {
-    return splitOversizedBlock(node, text, markdown, tokens);
+  if (tokens > profile.maxTokens) {
+    return splitOversizedBlock(node, text, markdown, tokens, profile);
   }
 
   const block = {
-    type: node.type,
+    type: blockType(node),
     node,
     text,
     markdown,
     tokens,
+    position: node.position,
   };
 
   return [block];
 }
 
+/**
+ * The longest end of the block that fits in `maxTokens`, for the overlap
+ * between chunks: the last sentences of a paragraph, or the last lines of a
+ * code block. Other blocks can only be overlapped whole.
+ */
+export async function tailOfBlock(
+  block: SemanticBlock,
+  maxTokens: number,
+): Promise<SemanticBlock | undefined> {
+  const { node } = block;
+
+  if (node.type === "code") {
+    const lines = node.value.split("\n");
+    const count = await countTailPieces(lines, maxTokens, (tail) =>
+      countTokens(tail.join("\n")),
+    );
+    return count === 0
+      ? undefined
+      : createCodeBlockFromChunk(lines.slice(-count), node);
+  }
+
+  if (node.type === "paragraph") {
+    const sentences = splitSentences(node);
+    const count = await countTailPieces(sentences, maxTokens, (tail) =>
+      countTokens(toString(joinSentences(tail))),
+    );
+    return count === 0
+      ? undefined
+      : createParagraphBlockFromSentences(sentences.slice(-count), node);
+  }
+
+  return undefined;
+}
+
+/** Callouts are typed by the kind of callout, e.g., `callout-note`. */
+function blockType(node: RootContent): string {
+  if (node.type === "blockquote" && node.data?.callout !== undefined) {
+    return node.data.callout;
+  }
+
+  return node.type;
+}
+
 /** Splits large blocks into ones that are below the target size.
  *
  * This function tries its best to split blocks while accounting for the fact
@@ -136,28 +422,34 @@ async function splitOversizedBlock(
   text: string,
   markdown: string,
   tokens: number,
+  profile: ChunkingProfile,
 ): Promise<readonly SemanticBlock[]> {
   let result: readonly SemanticBlock[] | null = null;
 
-  // Try strategy 1: Split code blocks on blank lines
-  if (node.type === "code") {
-    result = await trySplitCodeBlock(node);
+  // Try strategy 1: Split code blocks on (blank) lines
+  if (node.type === "code" && profile.codeSplitting !== "never") {
+    result = await trySplitCodeBlock(
+      node,
+      profile.targetTokens,
+      profile.codeSplitting === "blankLines",
+    );
   }
 
   // Try strategy 2: Split paragraphs on sentence boundaries
   if (!result && node.type === "paragraph") {
-    result = await trySplitParagraph(node, text);
+    result = await trySplitParagraph(node, profile.targetTokens);
   }
 
   // Can't split: return as-is and let embedding model truncate
   if (!result) {
     result = [
       {
-        type: node.type,
+        type: blockType(node),
         node,
         text,
         markdown,
         tokens,
+        position: node.position,
       },
     ];
   }
@@ -166,11 +458,14 @@ async function splitOversizedBlock(
 }
 
 /**
- * Attempts to split a code block at blank lines when it exceeds
- * `TARGET_TOKENS`. Returns null if splitting is not successful.
+ * Attempts to split a code block at blank lines, or at any line unless
+ * `onlyBlankLines`, when it exceeds `targetTokens`. Returns null if splitting
+ * is not successful.
  */
 async function trySplitCodeBlock(
   node: Code,
+  targetTokens: number,
+  onlyBlankLines: boolean,
 ): Promise<readonly SemanticBlock[] | null> {
   const lines = node.value.split("\n");
   const chunks: string[][] = [];
@@ -190,7 +485,10 @@ async function trySplitCodeBlock(
     // natural break point in the code. (Sometimes functions or other "real"
     // semantic units have blank lines in them, so it won't always keep
     // those together, but it's a reasonable heuristic.)
-    if (chunkTokens > TARGET_TOKENS && isEmptyWhenTrimmed(line)) {
+    if (
+      chunkTokens > targetTokens &&
+      (!onlyBlankLines || isEmptyWhenTrimmed(line))
+    ) {
       chunks.push([...currentChunk]);
       currentChunk = [];
     }
@@ -221,7 +519,7 @@ async function trySplitCodeBlock(
 /**
  * Creates a SemanticBlock from a chunk of code lines.
  *
- * The metadata associated with the `originalNode` is copied over to the
+ * The metadata and position of the `originalNode` are copied over to the
  * resulting `SemanticBlock`.
  */
 async function createCodeBlockFromChunk(
@@ -235,10 +533,10 @@ async function createCodeBlockFromChunk(
     meta: originalNode.meta,
     value: chunkValue,
   };
-  const chunkMarkdown = toMarkdown({
-    type: "root",
-    children: [chunkNode],
-  });
+  const chunkMarkdown = toMarkdown(
+    { type: "root", children: [chunkNode] },
+    TO_MARKDOWN_OPTIONS,
+  );
 
   return {
     type: "code",
@@ -246,32 +544,29 @@ async function createCodeBlockFromChunk(
     text: chunkValue,
     markdown: chunkMarkdown,
     tokens: await countTokens(chunkValue),
+    position: originalNode.position,
   };
 }
 
 /**
  * Attempts to split a paragraph at sentence boundaries when it exceeds
- * `TARGET_TOKENS`.
+ * `targetTokens`.
  *
- * Not doing anything sophisticated here, e.g., `"Mr. Rodgers"` will be split
- * into too "sentences": `["Mr.", "Rodgers"]`, but it's good enough for our
- * purposes.
+ * See `splitSentences` for what counts as a sentence boundary.
  *
  * Returns null if splitting is not successful.
  */
 async function trySplitParagraph(
-  node: RootContent,
-  text: string,
+  node: Paragraph,
+  targetTokens: number,
 ): Promise<readonly SemanticBlock[] | null> {
-  // Use the lookbehind on the ending punctuation so that it stays with the
-  // sentence to which it's attached.
-  const sentences = text.split(/(?<=[.!?])\s+/);
+  const sentences = splitSentences(node);
 
   if (sentences.length <= 1) {
     return null;
   }
 
-  const chunks = await groupSentencesIntoChunks(sentences);
+  const chunks = await groupSentencesIntoChunks(sentences, targetTokens);
 
   // Only return chunks if we successfully split
   if (chunks.length <= 1) {
@@ -285,20 +580,21 @@ async function trySplitParagraph(
   return blocks;
 }
 /**
- * Groups sentences into chunks that don't exceed TARGET_TOKENS.
+ * Groups sentences into chunks that don't exceed `targetTokens`.
  */
 async function groupSentencesIntoChunks(
-  sentences: readonly string[],
-): Promise<readonly string[][]> {
-  const chunks: string[][] = [];
-  let currentChunk: string[] = [];
+  sentences: readonly Paragraph[],
+  targetTokens: number,
+): Promise<readonly Paragraph[][]> {
+  const chunks: Paragraph[][] = [];
+  let currentChunk: Paragraph[] = [];
   let currentTokens = 0;
 
   for (const sentence of sentences) {
-    const sentenceTokens = await countTokens(sentence);
+    const sentenceTokens = await countTokens(toString(sentence));
 
     if (
-      currentTokens + sentenceTokens > TARGET_TOKENS &&
+      currentTokens + sentenceTokens > targetTokens &&
       currentChunk.length > 0
     ) {
       chunks.push([...currentChunk]);
@@ -318,20 +614,27 @@ async function groupSentencesIntoChunks(
 }
 
 /**
- * Creates a SemanticBlock from a chunk of sentences.
+ * Creates a SemanticBlock from a chunk of sentences of the `originalNode`,
+ * joined back into a paragraph so that the markdown keeps its inline markup.
  */
 async function createParagraphBlockFromSentences(
-  sentences: readonly string[],
-  originalNode: RootContent,
+  sentences: readonly Paragraph[],
+  originalNode: Paragraph,
 ): Promise<SemanticBlock> {
-  const chunkText = sentences.join(" ");
+  const chunkNode = joinSentences(sentences);
+  const chunkText = toString(chunkNode);
+  const chunkMarkdown = toMarkdown(
+    { type: "root", children: [chunkNode] },
+    TO_MARKDOWN_OPTIONS,
+  );
+
   return {
     type: "paragraph",
-    // TODO: shouldn't we be creating a new node for this?
-    node: originalNode,
+    node: chunkNode,
     text: chunkText,
-    markdown: chunkText + "\n",
+    markdown: chunkMarkdown,
     tokens: await countTokens(chunkText),
+    position: originalNode.position,
   };
 }
 
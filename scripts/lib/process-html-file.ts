@@ -0,0 +1,29 @@
+import fs from "node:fs";
+import { chunkWithContext } from "./chunk-with-context";
+import type { ChunkingProfile } from "./chunking-profile";
+import * as Config from "./config";
+import type { FinalizedChunk } from "./finalized-chunk";
+import { parseHtml } from "./html";
+import { parseSemanticBlocks } from "./parse-semantic-blocks";
+
+/**
+ * The HTML is converted to a markdown tree, and from there it's the same as
+ * for markdown files. Headings keep the ids they have on the page.
+ */
+export async function processHtmlFile(
+  input: Config.Input,
+  profile: ChunkingProfile,
+): Promise<readonly FinalizedChunk[]> {
+  const html = fs.readFileSync(input.file, "utf8");
+  const tree = parseHtml(html);
+
+  const blocks = await parseSemanticBlocks(tree, profile);
+
+  return chunkWithContext(
+    blocks,
+    input.work,
+    Config.inputTitle(input),
+    input.baseUrl,
+    { profile },
+  );
+}
@@ -1,10 +1,12 @@
-import { type Root } from "mdast";
+import type { Root } from "mdast";
 import fs from "node:fs";
 import { type Processor } from "unified";
 import { chunkWithContext } from "./chunk-with-context";
+import type { ChunkingProfile } from "./chunking-profile";
 import * as Config from "./config";
 import type { FinalizedChunk } from "./finalized-chunk";
 import { parseSemanticBlocks } from "./parse-semantic-blocks";
+import * as Quarto from "./quarto";
 
 export async function processMarkdownFile(
   markdownProcessor: Processor<
@@ -15,14 +17,24 @@ export async function processMarkdownFile(
     undefined
   >,
   input: Config.Input,
+  profile: ChunkingProfile,
 ): Promise<readonly FinalizedChunk[]> {
   const text = fs.readFileSync(input.file, "utf8");
-  const parseTree = markdownProcessor.parse(text);
-  const tree = (await markdownProcessor.run(parseTree)) as Root;
+  const parsedText = Quarto.fencedDivsToDirectives(text);
+  const parseTree = markdownProcessor.parse(parsedText);
+  const tree = Quarto.resolveQuarto(
+    (await markdownProcessor.run(parseTree)) as Root,
+  );
 
   // Convert to semantic blocks
-  const blocks = await parseSemanticBlocks(tree);
+  const blocks = await parseSemanticBlocks(tree, profile);
 
   // Chunk with heading context and overlap
-  return chunkWithContext(blocks, input.work, input.title);
+  const title = Config.inputTitle(input, Quarto.frontmatterTitle(tree));
+
+  return chunkWithContext(blocks, input.work, title, input.baseUrl, {
+    source: text,
+    parsedSource: parsedText,
+    profile,
+  });
 }
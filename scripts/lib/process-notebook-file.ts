@@ -0,0 +1,85 @@
+import type { Root } from "mdast";
+import fs from "node:fs";
+import type { Processor } from "unified";
+import * as Result from "../../shared/result";
+import { chunkWithContext, type SemanticBlock } from "./chunk-with-context";
+import type { ChunkingProfile } from "./chunking-profile";
+import * as Config from "./config";
+import type { FinalizedChunk } from "./finalized-chunk";
+import { createAnchorMaker } from "./heading-anchor";
+import { parseNotebook } from "./notebook";
+import { parseSemanticBlocks } from "./parse-semantic-blocks";
+
+/**
+ * Markdown cells go through the same path as markdown files. Code cells become
+ * `code` blocks, and their outputs become `output` blocks right after them,
+ * which are kept in the same chunk as the code.
+ */
+export async function processNotebookFile(
+  markdownProcessor: Processor<
+    Root,
+    undefined,
+    undefined,
+    undefined,
+    undefined
+  >,
+  input: Config.Input,
+  profile: ChunkingProfile,
+): Promise<Result.Result<readonly FinalizedChunk[], string>> {
+  let json;
+  try {
+    json = JSON.parse(fs.readFileSync(input.file, "utf8"));
+  } catch (error) {
+    return Result.error(`Failed to read notebook ${input.file}: ${error}`);
+  }
+
+  const notebookResult = parseNotebook(json, input.outputs);
+
+  if (Result.isError(notebookResult)) {
+    return Result.error(`${input.file}: ${notebookResult.error}`);
+  }
+
+  const { language, parts } = notebookResult.value;
+
+  // The whole notebook renders to one page, so the cells share anchors.
+  const makeAnchor = createAnchorMaker();
+  const blocks: SemanticBlock[] = [];
+
+  for (const [i, part] of parts.entries()) {
+    let tree: Root;
+    if (part.type === "markdown") {
+      const parseTree = markdownProcessor.parse(part.text);
+      tree = (await markdownProcessor.run(parseTree)) as Root;
+    } else {
+      const lang = part.type === "code" ? language : null;
+      tree = {
+        type: "root",
+        children: [{ type: "code", lang, value: part.text.trimEnd() }],
+      };
+    }
+
+    const partBlocks = await parseSemanticBlocks(tree, profile, makeAnchor);
+    const hasOutput = parts[i + 1]?.type === "output";
+
+    for (const [j, block] of partBlocks.entries()) {
+      blocks.push({
+        ...block,
+        // Outputs are parsed as code blocks, but they aren't code.
+        type: part.type === "output" ? "output" : block.type,
+        cellIndex: part.cellIndex,
+        keepWithNext:
+          block.keepWithNext || (hasOutput && j === partBlocks.length - 1),
+      });
+    }
+  }
+
+  const chunks = await chunkWithContext(
+    blocks,
+    input.work,
+    Config.inputTitle(input),
+    input.baseUrl,
+    { profile },
+  );
+
+  return Result.ok(chunks);
+}
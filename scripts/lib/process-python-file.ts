@@ -0,0 +1,31 @@
+import fs from "node:fs";
+import path from "node:path";
+import { chunkWithContext } from "./chunk-with-context";
+import type { ChunkingProfile } from "./chunking-profile";
+import * as Config from "./config";
+import type { FinalizedChunk } from "./finalized-chunk";
+import { parseSemanticBlocks } from "./parse-semantic-blocks";
+import { parsePythonSource } from "./python-source";
+
+/**
+ * The source is converted to a markdown tree, with a heading for each class
+ * and function, and from there it's the same as for markdown files.
+ */
+export async function processPythonFile(
+  input: Config.Input,
+  profile: ChunkingProfile,
+): Promise<readonly FinalizedChunk[]> {
+  const source = fs.readFileSync(input.file, "utf8");
+  const moduleName = input.module ?? path.basename(input.file, ".py");
+  const tree = parsePythonSource(source, moduleName);
+
+  const blocks = await parseSemanticBlocks(tree, profile);
+
+  return chunkWithContext(
+    blocks,
+    input.work,
+    Config.inputTitle(input),
+    input.baseUrl,
+    { profile },
+  );
+}
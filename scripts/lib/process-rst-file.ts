@@ -0,0 +1,35 @@
+import fs from "node:fs";
+import { chunkWithContext } from "./chunk-with-context";
+import type { ChunkingProfile } from "./chunking-profile";
+import * as Config from "./config";
+import type { FinalizedChunk } from "./finalized-chunk";
+import { createDocutilsAnchorMaker } from "./heading-anchor";
+import { parseSemanticBlocks } from "./parse-semantic-blocks";
+import { parseRst } from "./rst";
+
+/**
+ * The rST is converted to a markdown tree, and from there it's the same as for
+ * markdown files. The anchors follow Docutils, since that's what renders the
+ * pages we link to.
+ */
+export async function processRstFile(
+  input: Config.Input,
+  profile: ChunkingProfile,
+): Promise<readonly FinalizedChunk[]> {
+  const text = fs.readFileSync(input.file, "utf8");
+  const tree = parseRst(text);
+
+  const blocks = await parseSemanticBlocks(
+    tree,
+    profile,
+    createDocutilsAnchorMaker(),
+  );
+
+  return chunkWithContext(
+    blocks,
+    input.work,
+    Config.inputTitle(input),
+    input.baseUrl,
+    { profile },
+  );
+}
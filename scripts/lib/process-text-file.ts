@@ -0,0 +1,190 @@
+import fs from "node:fs";
+import { chunkId } from "./chunk-id";
+import type { ChunkingProfile } from "./chunking-profile";
+import * as Config from "./config";
+import type { FinalizedChunk } from "./finalized-chunk";
+import { countTailPieces, takeOverlap } from "./overlap";
+import { splitTextSentences } from "./sentences";
+import * as SourceRange from "./source-range";
+import { countTokens } from "./tokens";
+
+/**
+ * Plain text is split on blank lines, and the segments are packed into chunks
+ * with some overlap between them. Only the sizes in the `profile` apply, since
+ * there are no nodes or headings.
+ */
+export async function processTextFile(
+  input: Config.Input,
+  profile: ChunkingProfile,
+): Promise<readonly FinalizedChunk[]> {
+  const rawText = fs.readFileSync(input.file, "utf8");
+  const sourceFile = SourceRange.indexSourceFile(rawText);
+
+  const segments = splitText(rawText);
+
+  const chunks: FinalizedChunk[] = [];
+  let current = emptyBasicChunk();
+  for (const segment of segments) {
+    const newTokens = await countTokens(segment.text);
+
+    // Adding this segment would put us over the limit. Overlap alone isn't
+    // worth a chunk, though.
+    if (
+      current.segments.length > current.overlapCount &&
+      current.totalTokens + newTokens >= profile.maxTokens
+    ) {
+      chunks.push(finalizeBasicChunk(current, input, sourceFile));
+
+      // Start the next chunk with some overlap from the end of the current
+      // chunk.
+      current = await getOverlapChunk(current, profile.overlapTokens);
+    }
+
+    // We can safely add this segment.
+    current.segments.push({ ...segment, tokens: newTokens });
+    current.totalTokens += newTokens;
+  }
+
+  // The end of the document
+  if (current.segments.length > current.overlapCount) {
+    chunks.push(finalizeBasicChunk(current, input, sourceFile));
+  }
+
+  return chunks;
+}
+
+type BasicChunk = {
+  /**
+   * Track tokens per segment so that it's easier to select overlapping
+   * segments that fit the size we are looking for.
+   */
+  segments: CountedSegment[];
+  totalTokens: number;
+  /** How many of the `segments` are overlap from the chunk before. */
+  overlapCount: number;
+};
+
+function emptyBasicChunk(): BasicChunk {
+  return { segments: [], totalTokens: 0, overlapCount: 0 };
+}
+
+/**
+ * Starts the next chunk with the end of `basicChunk`, which can end in the
+ * middle of a segment.
+ */
+async function getOverlapChunk(
+  basicChunk: BasicChunk,
+  overlapTokens: number,
+): Promise<BasicChunk> {
+  const segments = await takeOverlap(
+    basicChunk.segments,
+    overlapTokens,
+    segmentTail,
+  );
+
+  return {
+    segments,
+    totalTokens: segments.reduce((sum, s) => sum + s.tokens, 0),
+    overlapCount: segments.length,
+  };
+}
+
+/** The last sentences of the segment that fit in `maxTokens`, if any do. */
+async function segmentTail(
+  segment: CountedSegment,
+  maxTokens: number,
+): Promise<CountedSegment | undefined> {
+  const sentences = splitTextSentences(segment.text);
+  const count = await countTailPieces(sentences, maxTokens, (tail) =>
+    countTokens(tail.join("")),
+  );
+  if (count === 0) return undefined;
+
+  const text = sentences.slice(-count).join("");
+  return {
+    text,
+    offset: segment.offset + segment.text.length - text.length,
+    tokens: await countTokens(text),
+  };
+}
+
+/**
+ * Raw text and markdown text will be the same for these.
+ *
+ * We use `""` as the joiner here, so don't forget to use the splitter that
+ * keeps the newlines tacked onto the end of the raw text.
+ */
+function finalizeBasicChunk(
+  basicChunk: BasicChunk,
+  input: Config.Input,
+  sourceFile: SourceRange.SourceFile,
+): FinalizedChunk {
+  const { work } = input;
+  const title = Config.inputTitle(input);
+  const text = basicChunk.segments.map((s) => s.text).join("");
+
+  // In a basic chunk, we don't bother parsing out headings, so we won't have a
+  // good set of breadcrumbs to use as the heading path. Instead, just show the
+  // title of the document that the chunk is from.
+  const headingPath = [title];
+
+  // The overlap is already in the chunk before.
+  const overlap = basicChunk.segments.slice(0, basicChunk.overlapCount);
+  const first = basicChunk.segments[basicChunk.overlapCount]!;
+  const last = basicChunk.segments.at(-1)!;
+  const sourceRange = SourceRange.rangeFromOffsets(
+    sourceFile,
+    first.offset,
+    last.offset + last.text.length,
+  );
+  const overlapLength = overlap.reduce((sum, s) => sum + s.text.length, 0);
+
+  return {
+    headingPath,
+    totalTokens: basicChunk.totalTokens,
+    rawText: text,
+    markdownText: text,
+    work,
+    title,
+    id: chunkId({ work, title, headingPath, rawText: text }),
+    // No headings, so the best we can do is link to the page.
+    sourceUrl: input.baseUrl,
+    // Plain text isn't parsed into blocks.
+    blockTypes: [],
+    sourceRange,
+    overlapLength: overlapLength > 0 ? overlapLength : undefined,
+  };
+}
+
+/** A piece of the text, with the separator after it. */
+interface Segment {
+  readonly text: string;
+  /** Where the segment starts in the text, in characters. */
+  readonly offset: number;
+}
+
+interface CountedSegment extends Segment {
+  readonly tokens: number;
+}
+
+function splitText(text: string): Segment[] {
+  return splitWithSeparators(text, /(\n\n+)/);
+}
+
+/** DON'T FORGET THE CAPTURING GROUP IN THE REGEX. */
+function splitWithSeparators(text: string, separator: RegExp): Segment[] {
+  const parts = text.split(separator);
+  const result = [];
+
+  let offset = 0;
+  for (let i = 0; i < parts.length; i += 2) {
+    const thisText = parts[i];
+    const sep = parts[i + 1] || "";
+    if (thisText) {
+      result.push({ text: thisText + sep, offset });
+    }
+    offset += thisText.length + sep.length;
+  }
+
+  return result;
+}
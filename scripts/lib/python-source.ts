@@ -0,0 +1,316 @@
+/**
+ * Converts a Python source file to a markdown syntax tree, so that our own
+ * modules can go through `parseSemanticBlocks` and `chunkWithContext` like the
+ * markdown files do.
+ *
+ * The module, and each class and function in it, becomes a heading with its
+ * name, so the heading path of a chunk is the qualified name of the code in it,
+ * e.g., `utils > fasta > parse_records`. Under the heading are two code blocks:
+ * the signature together with the docstring, and then the rest of the body.
+ * Oversized bodies are split up by `parseSemanticBlocks` like any other code
+ * block.
+ *
+ * Methods and nested classes get their own headings, but functions defined
+ * inside of functions stay in the body of the outer function.
+ *
+ * This only looks at the indentation, strings, and brackets, so it doesn't need
+ * a real Python parser, but it does assume that the code is valid.
+ */
+
+import type { Code, Heading, Root, RootContent } from "mdast";
+
+/**
+ * A statement, which may span several lines because of brackets, strings, or
+ * line continuations.
+ */
+interface LogicalLine {
+  /** Index of the first line. */
+  readonly start: number;
+  /** Index of the line after the last line. */
+  readonly end: number;
+  readonly indentation: number;
+  /** The first line, without its indentation. */
+  readonly text: string;
+}
+
+/** Lines `start` up to, but not including, `end`. */
+interface LineRange {
+  readonly start: number;
+  readonly end: number;
+}
+
+interface Definition {
+  readonly name: string;
+  /** The whole definition, including decorators. */
+  readonly range: LineRange;
+  /** Decorators, signature, and docstring. */
+  readonly header: LineRange;
+  /** Methods and nested classes. */
+  readonly children: readonly Definition[];
+}
+
+const DEFINITION = /^(?:async\s+)?(def|class)\s+(\w+)/;
+
+const STRING_LITERAL = /^[rRuUbB]{0,2}("""|'''|"|')/;
+
+/**
+ * `moduleName` is the dotted name of the module, e.g., `utils.fasta`. Each of
+ * its parts becomes a heading.
+ */
+export function parsePythonSource(source: string, moduleName: string): Root {
+  const lines = source
+    .replace(/\r\n?/g, "\n")
+    .replace(/\t/g, "        ")
+    .split("\n");
+  const statements = logicalLines(lines);
+
+  const moduleParts = moduleName.split(".");
+  const children: RootContent[] = moduleParts.map((part, i) =>
+    heading(part, i + 1),
+  );
+
+  // The module docstring is the first statement, if it's a string.
+  const docstring =
+    statements[0] !== undefined && STRING_LITERAL.test(statements[0].text)
+      ? { start: statements[0].start, end: statements[0].end }
+      : undefined;
+
+  const module: Definition = {
+    name: moduleName,
+    range: { start: 0, end: lines.length },
+    header: docstring ?? { start: 0, end: 0 },
+    children: findDefinitions(statements, 0, statements.length),
+  };
+
+  children.push(...definitionBlocks(lines, module));
+
+  for (const definition of module.children) {
+    children.push(...definitionNodes(lines, definition, moduleParts.length));
+  }
+
+  return { type: "root", children };
+}
+
+function definitionNodes(
+  lines: readonly string[],
+  definition: Definition,
+  parentDepth: number,
+): RootContent[] {
+  const depth = parentDepth + 1;
+  const nodes: RootContent[] = [
+    heading(definition.name, depth),
+    ...definitionBlocks(lines, definition),
+  ];
+
+  for (const child of definition.children) {
+    nodes.push(...definitionNodes(lines, child, depth));
+  }
+
+  return nodes;
+}
+
+/** The header and the body, leaving out the lines of the children. */
+function definitionBlocks(
+  lines: readonly string[],
+  definition: Definition,
+): Code[] {
+  const blocks: Code[] = [];
+
+  const header = lines.slice(definition.header.start, definition.header.end);
+  if (header.some((line) => !isBlank(line))) {
+    blocks.push(code(header));
+  }
+
+  const body = lines
+    .slice(definition.header.end, definition.range.end)
+    .filter((_line, i) => {
+      const lineNumber = definition.header.end + i;
+      return !definition.children.some(
+        (child) =>
+          child.range.start <= lineNumber && lineNumber < child.range.end,
+      );
+    });
+  if (body.some((line) => !isBlank(line))) {
+    blocks.push(code(body));
+  }
+
+  return blocks;
+}
+
+/**
+ * Finds the classes and functions among the statements from `from` up to `to`,
+ * which should all be in the same block.
+ */
+function findDefinitions(
+  statements: readonly LogicalLine[],
+  from: number,
+  to: number,
+): Definition[] {
+  const definitions: Definition[] = [];
+  const indentation = statements[from]?.indentation ?? 0;
+
+  let i = from;
+  while (i < to) {
+    const first = i;
+
+    // Decorators belong to the definition after them.
+    while (
+      i < to &&
+      statements[i]!.indentation === indentation &&
+      statements[i]!.text.startsWith("@")
+    ) {
+      i++;
+    }
+
+    const statement = statements[i];
+    const match =
+      i < to && statement!.indentation === indentation
+        ? statement!.text.match(DEFINITION)
+        : null;
+
+    if (match === null) {
+      i = Math.max(i, first + 1);
+      continue;
+    }
+
+    // The body is everything indented past the definition.
+    const bodyStart = i + 1;
+    let bodyEnd = bodyStart;
+    while (
+      bodyEnd < to &&
+      statements[bodyEnd]!.indentation > statement!.indentation
+    ) {
+      bodyEnd++;
+    }
+
+    const hasDocstring =
+      bodyStart < bodyEnd && STRING_LITERAL.test(statements[bodyStart]!.text);
+    const headerEnd = hasDocstring ? bodyStart + 1 : bodyStart;
+
+    definitions.push({
+      name: match[2]!,
+      range: {
+        start: statements[first]!.start,
+        end: statements[bodyEnd - 1]!.end,
+      },
+      header: {
+        start: statements[first]!.start,
+        end: statements[headerEnd - 1]!.end,
+      },
+      children:
+        match[1] === "class"
+          ? findDefinitions(statements, headerEnd, bodyEnd)
+          : [],
+    });
+
+    i = bodyEnd;
+  }
+
+  return definitions;
+}
+
+/** Groups the lines into statements, skipping blank lines and comments. */
+function logicalLines(lines: readonly string[]): LogicalLine[] {
+  const statements: LogicalLine[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const text = lines[i]!.trimStart();
+
+    if (text === "" || text.startsWith("#")) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let depth = 0;
+    let quote: string | undefined;
+    let continued: boolean;
+
+    do {
+      const line = lines[i]!;
+      continued = false;
+
+      for (let c = 0; c < line.length; c++) {
+        const char = line[c]!;
+
+        if (quote !== undefined) {
+          if (char === "\\") {
+            c++;
+          } else if (line.startsWith(quote, c)) {
+            c += quote.length - 1;
+            quote = undefined;
+          }
+          continue;
+        }
+
+        if (char === "#") break;
+
+        if (char === '"' || char === "'") {
+          quote = line.startsWith(char.repeat(3), c) ? char.repeat(3) : char;
+          c += quote.length - 1;
+        } else if ("([{".includes(char)) {
+          depth++;
+        } else if (")]}".includes(char)) {
+          depth = Math.max(0, depth - 1);
+        } else if (char === "\\" && c === line.length - 1) {
+          continued = true;
+        }
+      }
+
+      // Only triple-quoted strings go on past the end of the line.
+      if (quote?.length === 1) quote = undefined;
+
+      i++;
+    } while (
+      i < lines.length &&
+      (quote !== undefined || depth > 0 || continued)
+    );
+
+    statements.push({
+      start,
+      end: i,
+      indentation: lines[start]!.length - text.length,
+      text,
+    });
+  }
+
+  return statements;
+}
+
+// Helpers
+
+function heading(text: string, depth: number): Heading {
+  return {
+    type: "heading",
+    depth: Math.min(depth, 6) as Heading["depth"],
+    children: [{ type: "text", value: text }],
+  };
+}
+
+/** Removes the common indentation, and blank lines at the ends. */
+function code(lines: readonly string[]): Code {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && isBlank(lines[start]!)) start++;
+  while (end > start && isBlank(lines[end - 1]!)) end--;
+
+  const trimmed = lines.slice(start, end);
+  const indentation = Math.min(
+    ...trimmed
+      .filter((line) => !isBlank(line))
+      .map((line) => line.length - line.trimStart().length),
+  );
+
+  const value = trimmed
+    .map((line) => (isBlank(line) ? "" : line.slice(indentation)))
+    .join("\n")
+    // The children leave gaps behind.
+    .replace(/\n{3,}/g, "\n\n");
+
+  return { type: "code", lang: "python", value };
+}
+
+function isBlank(line: string): boolean {
+  return line.trim().length === 0;
+}
@@ -0,0 +1,364 @@
+/**
+ * Quarto's additions to markdown, which the book uses but `remark` doesn't
+ * know about:
+ *
+ * - fenced divs (`::: {.callout-note}`), which are like the container
+ *   directives of `remark-directive`, but without a name
+ * - callouts, which are fenced divs with a `callout-*` class
+ * - cell options (`#| echo: false`) at the top of executable code cells
+ * - attribute blocks on headings (`## Basics {#sec-basics}`)
+ * - cross-references (`@sec-basics`, `[@fig-plot]`)
+ * - the `title` in the YAML front matter
+ *
+ * See https://quarto.org/docs/authoring/markdown-basics.html
+ */
+
+import type {
+  Blockquote,
+  Code,
+  Heading,
+  Paragraph,
+  Root,
+  RootContent,
+  Text,
+} from "mdast";
+import type { ContainerDirective } from "mdast-util-directive";
+import { toString } from "mdast-util-to-string";
+import { parseHeadingText } from "./heading-anchor";
+
+const CODE_FENCE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+
+const DIV_OPEN = /^(:{3,})\s*(?:\{([^{}]*)\}|([\w-]+))\s*:*\s*$/;
+
+const DIV_CLOSE = /^:{3,}\s*$/;
+
+/**
+ * Rewrites Pandoc fenced divs as `remark-directive` container directives, so
+ * that `::: {.callout-note}` is parsed as a `containerDirective` named
+ * `callout-note`.
+ *
+ * Pandoc matches up the fences however many colons they have, but
+ * `remark-directive` needs the fences of outer containers to be longer than
+ * the inner ones, so the colons are counted again.
+ */
+export function fencedDivsToDirectives(markdown: string): string {
+  const lines = markdown.split("\n");
+
+  interface OpenDiv {
+    readonly line: number;
+    readonly name: string;
+    readonly attributes: string;
+    /** Height of the tallest div nested in this one. */
+    innerHeight: number;
+  }
+
+  const open: OpenDiv[] = [];
+  const rewrites = new Map<number, string>();
+  let codeFence: string | undefined;
+
+  lines.forEach((line, i) => {
+    const fence = line.match(CODE_FENCE);
+
+    if (codeFence !== undefined) {
+      // The closing fence is at least as long as the opening one.
+      if (
+        fence &&
+        fence[1]!.startsWith(codeFence) &&
+        fence[2]!.trim().length === 0
+      ) {
+        codeFence = undefined;
+      }
+      return;
+    }
+
+    if (fence) {
+      codeFence = fence[1]!;
+      return;
+    }
+
+    const opening = line.match(DIV_OPEN);
+    if (opening) {
+      const attributes =
+        opening[2] !== undefined ? opening[2] : `.${opening[3]!}`;
+      const name = attributes.match(/(?:^|\s)\.([A-Za-z][\w-]*)/)?.[1] ?? "div";
+      open.push({ line: i, name, attributes, innerHeight: 0 });
+      return;
+    }
+
+    if (DIV_CLOSE.test(line)) {
+      const div = open.pop();
+      if (div === undefined) return;
+
+      const height = div.innerHeight + 1;
+      const parent = open.at(-1);
+      if (parent !== undefined) {
+        parent.innerHeight = Math.max(parent.innerHeight, height);
+      }
+
+      const colons = ":".repeat(height + 2);
+      rewrites.set(div.line, `${colons}${div.name}{${div.attributes}}`);
+      rewrites.set(i, colons);
+    }
+  });
+
+  return lines.map((line, i) => rewrites.get(i) ?? line).join("\n");
+}
+
+/** Readable names for the kinds of things that can be cross-referenced. */
+const CROSS_REF_KINDS: Readonly<Record<string, string>> = {
+  sec: "Section",
+  fig: "Figure",
+  tbl: "Table",
+  lst: "Listing",
+  eq: "Equation",
+  thm: "Theorem",
+  lem: "Lemma",
+  cor: "Corollary",
+  prp: "Proposition",
+  cnj: "Conjecture",
+  def: "Definition",
+  exm: "Example",
+  exr: "Exercise",
+  sol: "Solution",
+  rem: "Remark",
+};
+
+const CROSS_REF = new RegExp(
+  `(\\[)?(-)?@((${Object.keys(CROSS_REF_KINDS).join("|")})-[\\w-]*\\w)(\\])?`,
+  "g",
+);
+
+const CALLOUT_TITLES: Readonly<Record<string, string>> = {
+  "callout-note": "Note",
+  "callout-tip": "Tip",
+  "callout-warning": "Warning",
+  "callout-caution": "Caution",
+  "callout-important": "Important",
+};
+
+/**
+ * Replaces the Quarto constructs in a tree parsed from markdown that went
+ * through `fencedDivsToDirectives`:
+ *
+ * - Callouts become block quotes that start with their title in bold, like
+ *   admonitions in the other formats, and are marked with their type.
+ * - Other fenced divs are unwrapped.
+ * - Heading attribute blocks are removed, and the `id` is kept on the node.
+ * - Cell options are removed from code cells.
+ * - Cross-references are replaced by the kind and title of their target, e.g.,
+ *   `@sec-basics` becomes `Section "Basics"`.
+ */
+export function resolveQuarto(tree: Root): Root {
+  const labels = new Map<string, string>();
+  const children = tree.children.flatMap((node) => resolveNode(node, labels));
+
+  return {
+    ...tree,
+    children: children.map((node) => resolveCrossRefs(node, labels)),
+  };
+}
+
+/** The `title` from the YAML front matter, if there is one. */
+export function frontmatterTitle(tree: Root): string | undefined {
+  const yaml = tree.children.find((node) => node.type === "yaml");
+  const title = yaml?.value.match(/^title:[ \t]*(.+?)[ \t]*$/m)?.[1];
+
+  if (title === undefined) return undefined;
+
+  // Only plain and quoted scalars
+  const quoted = title.match(/^(["'])(.*)\1$/);
+  if (quoted) {
+    return quoted[1] === '"'
+      ? quoted[2]!.replace(/\\(.)/g, "$1")
+      : quoted[2]!.replace(/''/g, "'");
+  }
+
+  return title;
+}
+
+/**
+ * Resolves everything but the cross-references, since those can point to
+ * things further on in the document. Collects the titles of the things they
+ * can point to in `labels` on the way.
+ */
+function resolveNode(
+  node: RootContent,
+  labels: Map<string, string>,
+): RootContent[] {
+  if (node.type === "containerDirective") {
+    return resolveDiv(node, labels);
+  }
+
+  if (node.type === "heading") {
+    return [resolveHeading(node, labels)];
+  }
+
+  if (node.type === "code") {
+    return [resolveCodeCell(node, labels)];
+  }
+
+  if ("children" in node) {
+    const children = node.children.flatMap((child) =>
+      resolveNode(child as RootContent, labels),
+    );
+    return [{ ...node, children } as RootContent];
+  }
+
+  return [node];
+}
+
+function resolveDiv(
+  div: ContainerDirective,
+  labels: Map<string, string>,
+): RootContent[] {
+  const children = div.children.flatMap((child) => resolveNode(child, labels));
+  const id = div.attributes?.id;
+
+  // The caption of a figure or table div is its last paragraph.
+  const caption = children.findLast((child) => child.type === "paragraph");
+  if (id && caption !== undefined) {
+    labels.set(id, toString(caption));
+  }
+
+  const defaultTitle = CALLOUT_TITLES[div.name];
+  if (defaultTitle === undefined) {
+    return children;
+  }
+
+  // The title is either an attribute or the heading the callout starts with.
+  let title = div.attributes?.title ?? undefined;
+  let body = children;
+  if (title === undefined && children[0]?.type === "heading") {
+    title = toString(children[0]);
+    body = children.slice(1);
+  }
+
+  const titleParagraph: Paragraph = {
+    type: "paragraph",
+    children: [
+      {
+        type: "strong",
+        children: [{ type: "text", value: title ?? defaultTitle }],
+      },
+    ],
+  };
+
+  const callout: Blockquote = {
+    type: "blockquote",
+    children: [titleParagraph, ...body] as Blockquote["children"],
+    data: { callout: div.name },
+    position: div.position,
+  };
+
+  return [callout];
+}
+
+function resolveHeading(
+  heading: Heading,
+  labels: Map<string, string>,
+): Heading {
+  const last = heading.children.at(-1);
+  if (last?.type !== "text") return heading;
+
+  const { text, explicitId } = parseHeadingText(last.value);
+  if (text === last.value) return heading;
+
+  const children = [
+    ...heading.children.slice(0, -1),
+    { ...last, value: text },
+  ].filter((child) => child.type !== "text" || child.value.length > 0);
+
+  const resolved: Heading = {
+    ...heading,
+    children,
+    data: { ...heading.data, id: explicitId },
+  };
+
+  if (explicitId !== undefined) {
+    labels.set(explicitId, toString(resolved));
+  }
+
+  return resolved;
+}
+
+/**
+ * Executable cells have the language in braces, e.g., `{python}`, and options
+ * in comments starting with `#|` at the top.
+ */
+function resolveCodeCell(code: Code, labels: Map<string, string>): Code {
+  const language = code.lang?.match(/^\{([\w-]+)[^{}]*\}$/)?.[1];
+  if (language === undefined) return code;
+
+  const lines = code.value.split("\n");
+  const options = new Map<string, string>();
+
+  let optionCount = 0;
+  for (const line of lines) {
+    const option = line.match(/^\s*(?:#|\/\/|--)\|\s*([\w-]+):\s*(.*?)\s*$/);
+    if (!option) break;
+
+    options.set(option[1]!, option[2]!.replace(/^(["'])(.*)\1$/, "$2"));
+    optionCount++;
+  }
+
+  const label = options.get("label");
+  const caption =
+    options.get("fig-cap") ?? options.get("tbl-cap") ?? options.get("lst-cap");
+  if (label !== undefined && caption !== undefined) {
+    labels.set(label, caption);
+  }
+
+  return {
+    ...code,
+    lang: language,
+    value: lines.slice(optionCount).join("\n"),
+  };
+}
+
+function resolveCrossRefs(
+  node: RootContent,
+  labels: ReadonlyMap<string, string>,
+): RootContent {
+  if (node.type === "text") {
+    return resolveCrossRefText(node, labels);
+  }
+
+  if ("children" in node) {
+    const children = node.children.map((child) =>
+      resolveCrossRefs(child as RootContent, labels),
+    );
+    return { ...node, children } as RootContent;
+  }
+
+  return node;
+}
+
+function resolveCrossRefText(
+  node: Text,
+  labels: ReadonlyMap<string, string>,
+): Text {
+  const value = node.value.replace(
+    CROSS_REF,
+    (
+      _match,
+      open = "",
+      suppressPrefix,
+      id: string,
+      kind: string,
+      close = "",
+    ) => {
+      // Without a title, the id is the best we have, e.g., `fig-plot` is "plot".
+      const title =
+        labels.get(id) ?? id.slice(kind.length + 1).replace(/[-_]/g, " ");
+      const label =
+        suppressPrefix === undefined
+          ? `${CROSS_REF_KINDS[kind]!} "${title}"`
+          : `"${title}"`;
+
+      // Brackets around a single reference are just markup.
+      return open !== "" && close !== "" ? label : `${open}${label}${close}`;
+    },
+  );
+
+  return { ...node, value };
+}
@@ -0,0 +1,22 @@
+import * as Fs from "node:fs";
+import * as Result from "../../shared/result";
+
+/**
+ * Reads a file of queries, one per line. Blank lines and lines starting with
+ * `#` are skipped.
+ */
+export function readQueryFile(path: string): Result.Result<string[], string> {
+  let text;
+  try {
+    text = Fs.readFileSync(path, "utf8");
+  } catch (error) {
+    return Result.error(`Failed to read queries ${path}: ${error}`);
+  }
+
+  return Result.ok(
+    text
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0 && !line.startsWith("#")),
+  );
+}
@@ -0,0 +1,641 @@
+/**
+ * Converts reStructuredText to a markdown syntax tree, so that rST files can go
+ * through `parseSemanticBlocks` and `chunkWithContext` like the markdown files
+ * do.
+ *
+ * This is nowhere near a complete rST parser. It covers what the Python docs
+ * mostly use:
+ *
+ * - sections, with or without overlines
+ * - paragraphs, with the common inline markup and Sphinx roles
+ * - literal blocks after `::`, `code-block` directives, and doctest blocks
+ * - bullet and enumerated lists
+ * - admonitions like `note` and `seealso`, as block quotes
+ * - block quotes
+ *
+ * Tables are kept as preformatted text. Comments, targets, and any other
+ * directives are dropped.
+ */
+
+import type {
+  BlockContent,
+  Blockquote,
+  Code,
+  Heading,
+  List,
+  ListItem,
+  Paragraph,
+  PhrasingContent,
+  Root,
+  RootContent,
+} from "mdast";
+
+/** Language of literal blocks until a `highlight` directive says otherwise. */
+const DEFAULT_LANGUAGE = "python";
+
+interface ParserState {
+  /**
+   * Section adornment styles in the order they first show up. The position of
+   * a style is its heading level, minus one.
+   */
+  readonly sectionStyles: string[];
+  /** Language of literal blocks, set by the `highlight` directive. */
+  language: string;
+}
+
+export function parseRst(text: string): Root {
+  const lines = text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\t/g, "        ")
+    .split("\n");
+  const state: ParserState = { sectionStyles: [], language: DEFAULT_LANGUAGE };
+
+  return { type: "root", children: parseBlocks(lines, state, true) };
+}
+
+interface Parsed<T> {
+  readonly value: T;
+  /** Index of the first line after the parsed lines. */
+  readonly next: number;
+}
+
+/**
+ * Parses lines that are all at the same indentation level.
+ *
+ * Sections can only be at the top level. Everywhere else, the content ends up
+ * in a list item or block quote, so it has to be `BlockContent`.
+ */
+function parseBlocks(
+  lines: readonly string[],
+  state: ParserState,
+  allowSections: true,
+): RootContent[];
+function parseBlocks(
+  lines: readonly string[],
+  state: ParserState,
+  allowSections: false,
+): BlockContent[];
+function parseBlocks(
+  lines: readonly string[],
+  state: ParserState,
+  allowSections: boolean,
+): RootContent[] {
+  const blocks: RootContent[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    if (indentation(line) > 0) {
+      const { value: body, next } = indentedBlock(lines, i);
+      blocks.push(blockquote(parseBlocks(body, state, false)));
+      i = next;
+      continue;
+    }
+
+    const section = allowSections ? matchSection(lines, i) : undefined;
+    if (section !== undefined) {
+      blocks.push(heading(section.value, state));
+      i = section.next;
+      continue;
+    }
+
+    // Transitions are just horizontal lines, so there's nothing to keep.
+    if (isAdornment(line) && line.trim().length >= 4) {
+      i++;
+      continue;
+    }
+
+    if (line === ".." || line.startsWith(".. ")) {
+      const markup = parseExplicitMarkup(lines, i, state);
+      blocks.push(...markup.value);
+      i = markup.next;
+      continue;
+    }
+
+    if (matchListMarker(line) !== undefined) {
+      const list = parseList(lines, i, state);
+      blocks.push(list.value);
+      i = list.next;
+      continue;
+    }
+
+    if (line.startsWith(">>>")) {
+      const doctest = untilBlank(lines, i);
+      blocks.push(code(doctest.value, "pycon"));
+      i = doctest.next;
+      continue;
+    }
+
+    // Grid tables and simple tables
+    if (/^\+[-=+]+\+\s*$/.test(line) || /^=+( +=+)+\s*$/.test(line)) {
+      const table = untilBlank(lines, i);
+      blocks.push(code(table.value, null));
+      i = table.next;
+      continue;
+    }
+
+    const text = parseParagraph(lines, i, state);
+    blocks.push(...text.value);
+    i = text.next;
+  }
+
+  return blocks;
+}
+
+/**
+ * A paragraph runs until a blank line, or until the indentation changes, which
+ * would make it the term of a definition list. Then the definition is parsed
+ * as a block quote.
+ *
+ * A paragraph that ends in `::` starts a literal block.
+ */
+function parseParagraph(
+  lines: readonly string[],
+  start: number,
+  state: ParserState,
+): Parsed<BlockContent[]> {
+  let end = start + 1;
+  while (
+    end < lines.length &&
+    !isBlank(lines[end]!) &&
+    indentation(lines[end]!) === 0
+  ) {
+    end++;
+  }
+
+  let text = lines.slice(start, end).join("\n").trimEnd();
+  const blocks: BlockContent[] = [];
+
+  if (!text.endsWith("::")) {
+    blocks.push(paragraph(text));
+    return { value: blocks, next: end };
+  }
+
+  // `Example::` shows as `Example:`, and a `::` on its own (or after a space)
+  // doesn't show at all.
+  if (/(^|\s)::$/.test(text)) {
+    text = text.slice(0, -2).trimEnd();
+  } else {
+    text = text.slice(0, -1);
+  }
+
+  if (text.length > 0) {
+    blocks.push(paragraph(text));
+  }
+
+  let next = end;
+  while (next < lines.length && isBlank(lines[next]!)) next++;
+
+  if (next < lines.length && indentation(lines[next]!) > 0) {
+    const literal = indentedBlock(lines, next);
+    blocks.push(code(literal.value, state.language));
+    next = literal.next;
+  }
+
+  return { value: blocks, next };
+}
+
+// Sections
+
+const ADORNMENT = /^([!-/:-@[-`{-~])\1+\s*$/;
+
+function isAdornment(line: string): boolean {
+  return ADORNMENT.test(line);
+}
+
+interface Section {
+  readonly title: string;
+  /** The adornment character, and whether there is an overline. */
+  readonly style: string;
+}
+
+function matchSection(
+  lines: readonly string[],
+  i: number,
+): Parsed<Section> | undefined {
+  const line = lines[i]!;
+  const nextLine = lines[i + 1];
+
+  if (nextLine === undefined) return undefined;
+
+  // Overline, title, underline
+  if (isAdornment(line)) {
+    const underline = lines[i + 2];
+    if (
+      !isBlank(nextLine) &&
+      underline !== undefined &&
+      isAdornment(underline) &&
+      underline.trim() === line.trim()
+    ) {
+      return {
+        value: { title: nextLine.trim(), style: `over ${line[0]}` },
+        next: i + 3,
+      };
+    }
+
+    return undefined;
+  }
+
+  // Title, underline at least as long as the title
+  if (isAdornment(nextLine) && nextLine.trim().length >= line.trim().length) {
+    return {
+      value: { title: line.trim(), style: `under ${nextLine[0]}` },
+      next: i + 2,
+    };
+  }
+
+  return undefined;
+}
+
+function heading(section: Section, state: ParserState): Heading {
+  let level = state.sectionStyles.indexOf(section.style);
+  if (level === -1) {
+    state.sectionStyles.push(section.style);
+    level = state.sectionStyles.length - 1;
+  }
+
+  return {
+    type: "heading",
+    depth: Math.min(level + 1, 6) as Heading["depth"],
+    children: parseInline(section.title),
+  };
+}
+
+// Explicit markup: directives, comments, targets, etc.
+
+const CODE_DIRECTIVES = new Set(["code-block", "code", "sourcecode"]);
+
+const ADMONITION_TITLES: Readonly<Record<string, string>> = {
+  attention: "Attention",
+  caution: "Caution",
+  danger: "Danger",
+  error: "Error",
+  hint: "Hint",
+  important: "Important",
+  note: "Note",
+  tip: "Tip",
+  warning: "Warning",
+  seealso: "See also",
+};
+
+const VERSION_TITLES: Readonly<Record<string, string>> = {
+  versionadded: "Added in version",
+  versionchanged: "Changed in version",
+  deprecated: "Deprecated since version",
+};
+
+/** Python domain directives that document an object, e.g., a function. */
+const OBJECT_DIRECTIVE =
+  /^(py:)?(function|method|classmethod|staticmethod|class|attribute|data|exception|decorator)$/;
+
+function parseExplicitMarkup(
+  lines: readonly string[],
+  start: number,
+  state: ParserState,
+): Parsed<BlockContent[]> {
+  const { value: body, next } = indentedBlock(lines, start + 1);
+  const directive = lines[start]!.match(/^\.\.\s+([\w:-]+)::\s*(.*)$/);
+
+  // Comments, targets, footnotes, and substitutions
+  if (!directive) {
+    return { value: [], next };
+  }
+
+  const name = directive[1]!;
+  const argument = directive[2]!.trim();
+
+  // Options come right after the directive line. After a blank line, it's all
+  // content, even if it starts with a role, like :pep:`8`.
+  let contentStart = 0;
+  if (!isBlank(lines[start + 1] ?? "")) {
+    while (
+      contentStart < body.length &&
+      /^:[\w-]+:(\s|$)/.test(body[contentStart]!)
+    ) {
+      contentStart++;
+    }
+  }
+  const content = body.slice(contentStart);
+
+  if (CODE_DIRECTIVES.has(name)) {
+    const language = argument === "" ? state.language : argument;
+    return { value: [code(content, language)], next };
+  }
+
+  if (name === "highlight") {
+    state.language = argument;
+    return { value: [], next };
+  }
+
+  if (name === "doctest") {
+    return { value: [code(content, "pycon")], next };
+  }
+
+  if (name === "testcode") {
+    return { value: [code(content, state.language)], next };
+  }
+
+  if (Object.hasOwn(ADMONITION_TITLES, name)) {
+    // The argument is really the start of the content. A blank line after it
+    // ends its paragraph.
+    const separator = isBlank(lines[start + 1] ?? "") ? [""] : [];
+    const contentLines =
+      argument === "" ? content : [argument, ...separator, ...content];
+    return {
+      value: [admonition(ADMONITION_TITLES[name]!, contentLines, state)],
+      next,
+    };
+  }
+
+  if (name === "admonition") {
+    return { value: [admonition(argument, content, state)], next };
+  }
+
+  if (Object.hasOwn(VERSION_TITLES, name)) {
+    const title = `${VERSION_TITLES[name]!} ${argument}`;
+    return { value: [admonition(title, content, state)], next };
+  }
+
+  if (OBJECT_DIRECTIVE.test(name)) {
+    const signature: Paragraph = {
+      type: "paragraph",
+      children: [{ type: "inlineCode", value: argument }],
+    };
+    return { value: [signature, ...parseBlocks(content, state, false)], next };
+  }
+
+  return { value: [], next };
+}
+
+function admonition(
+  title: string,
+  content: readonly string[],
+  state: ParserState,
+): Blockquote {
+  const titleParagraph: Paragraph = {
+    type: "paragraph",
+    children: [{ type: "strong", children: [{ type: "text", value: title }] }],
+  };
+
+  return blockquote([titleParagraph, ...parseBlocks(content, state, false)]);
+}
+
+// Lists
+
+interface ListMarker {
+  /** Items with a different kind of marker start a new list. */
+  readonly kind: string;
+  readonly ordered: boolean;
+  readonly start: number | undefined;
+  /** Columns up to where the item text starts. */
+  readonly width: number;
+  readonly text: string;
+}
+
+function matchListMarker(line: string): ListMarker | undefined {
+  const bullet = line.match(/^([-*+•])( +)(\S.*)$/);
+  if (bullet) {
+    return {
+      kind: bullet[1]!,
+      ordered: false,
+      start: undefined,
+      width: 1 + bullet[2]!.length,
+      text: bullet[3]!,
+    };
+  }
+
+  const enumerated = line.match(/^(\()?(\d+|#)([.)])( +)(\S.*)$/);
+  if (enumerated) {
+    const [, open = "", number, close, spaces, text] = enumerated;
+    return {
+      kind: `${open}${close}`,
+      ordered: true,
+      start: number === "#" ? 1 : Number(number),
+      width: open.length + number!.length + close!.length + spaces!.length,
+      text: text!,
+    };
+  }
+
+  return undefined;
+}
+
+function parseList(
+  lines: readonly string[],
+  start: number,
+  state: ParserState,
+): Parsed<List> {
+  const first = matchListMarker(lines[start]!)!;
+  const items: ListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const marker = matchListMarker(lines[i]!);
+    if (marker === undefined || marker.kind !== first.kind) break;
+
+    // The item is its first line and everything indented past the marker.
+    const body = [marker.text];
+    i++;
+    while (
+      i < lines.length &&
+      (isBlank(lines[i]!) || indentation(lines[i]!) >= marker.width)
+    ) {
+      body.push(lines[i]!.slice(marker.width));
+      i++;
+    }
+
+    items.push({
+      type: "listItem",
+      spread: false,
+      children: parseBlocks(body, state, false),
+    });
+  }
+
+  return {
+    value: {
+      type: "list",
+      ordered: first.ordered,
+      start: first.start,
+      spread: false,
+      children: items,
+    },
+    next: i,
+  };
+}
+
+// Inline markup
+
+/** Roles whose text reads as prose rather than code. */
+const PROSE_ROLES = new Set([
+  "abbr",
+  "doc",
+  "dfn",
+  "emphasis",
+  "guilabel",
+  "menuselection",
+  "ref",
+  "strong",
+  "term",
+  "title",
+]);
+
+const INLINE_MARKUP = new RegExp(
+  [
+    // 1: ``literal``
+    "``(.+?)``",
+    // 2, 3: :role:`text`
+    ":((?:[\\w-]+:)?[\\w-]+):`(.+?)`",
+    // 4, 5: `text <url>`_
+    "`([^`]+?)\\s*<([^<>`]+)>`__?",
+    // 6: `interpreted text` or `reference`_
+    "`([^`]+)`(?:__?)?",
+    // 7: **strong**
+    "\\*\\*(?!\\s)(.+?)(?<!\\s)\\*\\*",
+    // 8: *emphasis*
+    "\\*(?!\\s)([^*]+?)(?<!\\s)\\*",
+  ].join("|"),
+  "g",
+);
+
+export function parseInline(text: string): PhrasingContent[] {
+  const nodes: PhrasingContent[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_MARKUP)) {
+    if (match.index > last) {
+      nodes.push(plainText(text.slice(last, match.index)));
+    }
+    last = match.index + match[0].length;
+
+    const [, literal, role, roleText, linkText, url, interpreted] = match;
+    const [strong, emphasis] = [match[7], match[8]];
+
+    if (literal !== undefined) {
+      nodes.push({ type: "inlineCode", value: literal });
+    } else if (role !== undefined) {
+      nodes.push(roleNode(role, roleText!));
+    } else if (linkText !== undefined) {
+      nodes.push(
+        /^([a-z]+:\/\/|mailto:)/i.test(url!)
+          ? { type: "link", url: url!, children: [plainText(linkText)] }
+          : plainText(linkText),
+      );
+    } else if (interpreted !== undefined) {
+      nodes.push({ type: "emphasis", children: [plainText(interpreted)] });
+    } else if (strong !== undefined) {
+      nodes.push({ type: "strong", children: [plainText(strong)] });
+    } else if (emphasis !== undefined) {
+      nodes.push({ type: "emphasis", children: [plainText(emphasis)] });
+    }
+  }
+
+  if (last < text.length) {
+    nodes.push(plainText(text.slice(last)));
+  }
+
+  return nodes;
+}
+
+/**
+ * Roles show up the way Sphinx renders them: `title <target>` shows the title,
+ * `~a.b.c` shows `c`, and functions and methods get parentheses.
+ */
+function roleNode(role: string, text: string): PhrasingContent {
+  const name = role.split(":").at(-1)!;
+
+  const titled = text.match(/^(.*?)\s*<([^<>]+)>$/);
+  let value: string;
+  if (titled) {
+    value = titled[1]!;
+  } else {
+    value = text.replace(/^!/, "");
+    if (value.startsWith("~")) {
+      value = value.slice(1).split(".").at(-1)!;
+    }
+    if ((name === "func" || name === "meth") && !value.endsWith(")")) {
+      value += "()";
+    }
+  }
+
+  if (name === "pep") return plainText(`PEP ${value}`);
+  if (name === "rfc") return plainText(`RFC ${value}`);
+  if (PROSE_ROLES.has(name)) return plainText(value);
+
+  return { type: "inlineCode", value };
+}
+
+function plainText(text: string): PhrasingContent {
+  // Backslash escapes just mean "this isn't markup".
+  return { type: "text", value: text.replace(/\\(.)/g, "$1") };
+}
+
+// Helpers
+
+function paragraph(text: string): Paragraph {
+  return { type: "paragraph", children: parseInline(text) };
+}
+
+function blockquote(children: BlockContent[]): Blockquote {
+  return { type: "blockquote", children };
+}
+
+function code(lines: readonly string[], lang: string | null): Code {
+  return { type: "code", lang, value: trimBlankLines(lines).join("\n") };
+}
+
+function isBlank(line: string): boolean {
+  return line.trim().length === 0;
+}
+
+function indentation(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function trimBlankLines(lines: readonly string[]): readonly string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && isBlank(lines[start]!)) start++;
+  while (end > start && isBlank(lines[end - 1]!)) end--;
+
+  return lines.slice(start, end);
+}
+
+/** Lines up to the next blank line. */
+function untilBlank(
+  lines: readonly string[],
+  start: number,
+): Parsed<readonly string[]> {
+  let end = start;
+  while (end < lines.length && !isBlank(lines[end]!)) end++;
+
+  return { value: lines.slice(start, end), next: end };
+}
+
+/**
+ * The indented lines starting at `start`, with the common indentation removed.
+ * Blank lines in between are part of the block.
+ */
+function indentedBlock(
+  lines: readonly string[],
+  start: number,
+): Parsed<string[]> {
+  let end = start;
+  while (
+    end < lines.length &&
+    (isBlank(lines[end]!) || indentation(lines[end]!) > 0)
+  ) {
+    end++;
+  }
+
+  const block = trimBlankLines(lines.slice(start, end));
+  const indent = Math.min(
+    ...block.filter((line) => !isBlank(line)).map(indentation),
+  );
+
+  return { value: block.map((line) => line.slice(indent)), next: end };
+}
@@ -0,0 +1,189 @@
+/**
+ * Splits paragraphs into sentences without losing their inline markup.
+ *
+ * Sentences only end in the plain text of a paragraph, so inline code, links,
+ * emphasis, etc. are never split. A `.`, `!`, or `?` followed by whitespace
+ * ends a sentence, unless:
+ *
+ * - the next sentence would start with a lowercase letter, as in "e.g. the",
+ * - or the `.` ends a known abbreviation, as in "Mr. Rodgers", or an initial.
+ *
+ * It's still a heuristic, but a much better one than splitting on every period.
+ */
+
+import type { Paragraph, PhrasingContent } from "mdast";
+
+/** Lowercase, without the final period. */
+const ABBREVIATIONS = new Set([
+  "al",
+  "approx",
+  "cf",
+  "dr",
+  "e.g",
+  "eq",
+  "fig",
+  "i.e",
+  "jr",
+  "mr",
+  "mrs",
+  "ms",
+  "no",
+  "p",
+  "pp",
+  "prof",
+  "sec",
+  "sr",
+  "st",
+  "vol",
+  "vs",
+]);
+
+/** Sentence-ending punctuation, any closing quotes or brackets, and spaces. */
+const SENTENCE_END = /[.!?]+["'”’)\]]*\s+/g;
+
+/** Splits the paragraph into one paragraph per sentence. */
+export function splitSentences(paragraph: Paragraph): Paragraph[] {
+  const sentences: PhrasingContent[][] = [];
+  let current: PhrasingContent[] = [];
+
+  paragraph.children.forEach((node, i) => {
+    if (node.type !== "text") {
+      current.push(node);
+      return;
+    }
+
+    const next = paragraph.children[i + 1];
+    let start = 0;
+
+    for (const match of node.value.matchAll(SENTENCE_END)) {
+      const end = match.index + match[0].length;
+      if (!isSentenceEnd(node.value, match.index, end, next)) continue;
+
+      current.push({ type: "text", value: node.value.slice(start, end) });
+      sentences.push(current);
+      current = [];
+      start = end;
+    }
+
+    if (start < node.value.length) {
+      current.push({ type: "text", value: node.value.slice(start) });
+    }
+  });
+
+  if (current.length > 0) {
+    sentences.push(current);
+  }
+
+  return sentences
+    .map((children) => trimParagraph({ type: "paragraph", children }))
+    .filter((sentence) => sentence.children.length > 0);
+}
+
+/**
+ * Splits plain text into sentences, keeping the whitespace after each one, so
+ * that joining them gives back the text.
+ */
+export function splitTextSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index + match[0].length;
+    if (!isSentenceEnd(text, match.index, end, undefined)) continue;
+
+    sentences.push(text.slice(start, end));
+    start = end;
+  }
+
+  if (start < text.length) {
+    sentences.push(text.slice(start));
+  }
+
+  return sentences;
+}
+
+/** Joins sentences back into one paragraph, separated by spaces. */
+export function joinSentences(sentences: readonly Paragraph[]): Paragraph {
+  const children: PhrasingContent[] = [];
+
+  sentences.forEach((sentence, i) => {
+    if (i > 0) children.push({ type: "text", value: " " });
+    children.push(...sentence.children);
+  });
+
+  return { type: "paragraph", children: mergeText(children) };
+}
+
+/**
+ * Whether the punctuation from `punctuation` to `end` in `text` ends a
+ * sentence. `next` is the node after the text, if any.
+ */
+function isSentenceEnd(
+  text: string,
+  punctuation: number,
+  end: number,
+  next: PhrasingContent | undefined,
+): boolean {
+  const following = text.slice(end);
+
+  // At the end of the text node, the sentence can only go on to the next node,
+  // e.g., inline code. With nothing after it, the paragraph ends anyway.
+  if (following.length === 0) {
+    if (next === undefined) return false;
+    if (next.type === "text") return !/^\p{Ll}/u.test(next.value);
+  } else if (/^\p{Ll}/u.test(following)) {
+    return false;
+  }
+
+  if (text[punctuation] !== ".") return true;
+
+  // The word right before the period, e.g., `Mr` or `e.g`
+  const word = text.slice(0, punctuation).match(/(\S+)$/)?.[1] ?? "";
+  const bare = word.replace(/^["'“‘([]+/, "");
+
+  // Initials, like the `J` in "J. Smith"
+  if (/^\p{Lu}$/u.test(bare)) return false;
+
+  return !ABBREVIATIONS.has(bare.toLowerCase());
+}
+
+/** Removes the whitespace at the start and end of the sentence. */
+function trimParagraph(paragraph: Paragraph): Paragraph {
+  const children = mergeText(paragraph.children);
+
+  const first = children[0];
+  if (first?.type === "text") {
+    children[0] = { ...first, value: first.value.trimStart() };
+  }
+
+  const last = children.at(-1);
+  if (last?.type === "text") {
+    children[children.length - 1] = { ...last, value: last.value.trimEnd() };
+  }
+
+  return {
+    ...paragraph,
+    children: children.filter(
+      (child) => child.type !== "text" || child.value.length > 0,
+    ),
+  };
+}
+
+function mergeText(nodes: readonly PhrasingContent[]): PhrasingContent[] {
+  const merged: PhrasingContent[] = [];
+
+  for (const node of nodes) {
+    const previous = merged.at(-1);
+
+    if (node.type === "text" && previous?.type === "text") {
+      merged[merged.length - 1] = {
+        type: "text",
+        value: previous.value + node.value,
+      };
+    } else {
+      merged.push(node);
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,139 @@
+import { Buffer } from "node:buffer";
+import type { Point } from "unist";
+import type { SourceRange } from "./finalized-chunk";
+
+/** The text of an input file, indexed by line. */
+export interface SourceFile {
+  readonly text: string;
+  /** The offset of the start of each line, in characters. */
+  readonly lineStarts: readonly number[];
+  /** The offset of the start of each line, in bytes of UTF-8. */
+  readonly lineStartBytes: readonly number[];
+  /**
+   * The lines that were rewritten before parsing, as they were parsed, by their
+   * index.
+   */
+  readonly rewrittenLines: ReadonlyMap<number, string>;
+}
+
+/**
+ * Pass in the `parsedText` if the text was rewritten a bit before parsing (see
+ * `fencedDivsToDirectives`). The lines have to stay where they are, though.
+ */
+export function indexSourceFile(
+  text: string,
+  parsedText: string = text,
+): SourceFile {
+  const lineStarts = [0];
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") lineStarts.push(i + 1);
+  }
+
+  const lines = text.split("\n");
+  const lineStartBytes = [0];
+
+  for (const line of lines.slice(0, -1)) {
+    lineStartBytes.push(lineStartBytes.at(-1)! + Buffer.byteLength(line) + 1);
+  }
+
+  const rewrittenLines = new Map<number, string>();
+
+  if (parsedText !== text) {
+    parsedText.split("\n").forEach((line, i) => {
+      if (line !== lines[i]) rewrittenLines.set(i, line);
+    });
+  }
+
+  return { text, lineStarts, lineStartBytes, rewrittenLines };
+}
+
+/**
+ * The range from the `start` to the `end` of a node's position, e.g., of an
+ * mdast node parsed from the file.
+ *
+ * Undefined if either point isn't in the file. On a rewritten line, only the
+ * start and the end of the line are, since the rest of it has moved around.
+ */
+export function rangeFromPoints(
+  file: SourceFile,
+  start: Point,
+  end: Point,
+): SourceRange | undefined {
+  const startOffset = pointOffset(file, start);
+  const endOffset = pointOffset(file, end);
+
+  if (startOffset === undefined || endOffset === undefined) return undefined;
+
+  return rangeFromOffsets(file, startOffset, endOffset);
+}
+
+/**
+ * The range of the characters from `start` up to, but not including, `end`,
+ * without the whitespace at the end.
+ */
+export function rangeFromOffsets(
+  file: SourceFile,
+  start: number,
+  end: number,
+): SourceRange {
+  const trimmedEnd = start + file.text.slice(start, end).trimEnd().length;
+
+  return {
+    startLine: lineAt(file, start),
+    endLine: lineAt(file, Math.max(start, trimmedEnd - 1)),
+    startByte: byteOffset(file, start),
+    endByte: byteOffset(file, trimmedEnd),
+  };
+}
+
+/**
+ * The offset in bytes of the character at `offset`. Only the part of its line
+ * before it is counted, so that ranges don't take longer the further they are
+ * into the file.
+ */
+function byteOffset(file: SourceFile, offset: number): number {
+  const line = lineAt(file, offset) - 1;
+  const lineStart = file.lineStarts[line]!;
+
+  return (
+    file.lineStartBytes[line]! +
+    Buffer.byteLength(file.text.slice(lineStart, offset))
+  );
+}
+
+function pointOffset(file: SourceFile, point: Point): number | undefined {
+  const lineStart = file.lineStarts[point.line - 1];
+  if (lineStart === undefined) return undefined;
+
+  const nextLineStart = file.lineStarts[point.line];
+  const lineEnd =
+    nextLineStart === undefined ? file.text.length : nextLineStart - 1;
+  const column = point.column - 1;
+
+  const rewritten = file.rewrittenLines.get(point.line - 1);
+  if (rewritten !== undefined) {
+    if (column === 0) return lineStart;
+    if (column === rewritten.length) return lineEnd;
+    return undefined;
+  }
+
+  return lineStart + column <= lineEnd ? lineStart + column : undefined;
+}
+
+/** The 1-based number of the line the character at `offset` is on. */
+function lineAt(file: SourceFile, offset: number): number {
+  let low = 0;
+  let high = file.lineStarts.length - 1;
+
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (file.lineStarts[middle]! <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return low + 1;
+}
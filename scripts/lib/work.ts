@@ -2,9 +2,25 @@
 
 import * as Zod from "zod";
 
-export const WorkSchema = Zod.enum([
-  "Applied Python Programming",
-  "The Python Tutorial",
-]);
+/** Chunks refer to the work they came from by its ID. */
+export const WorkIdSchema = Zod.string().min(1);
+
+export type WorkId = Zod.infer<typeof WorkIdSchema>;
+
+/**
+ * A source work, e.g., a book, that we chunk and embed. These are declared in
+ * the embed config and stored in the database, so the UI can show them.
+ */
+export const WorkSchema = Zod.object({
+  id: WorkIdSchema,
+  /** The name to show users, e.g., in the data source filters. */
+  name: Zod.string(),
+  /** Where users can read the work online. */
+  baseUrl: Zod.url(),
+  /** Name of the license that the work is under. */
+  license: Zod.string(),
+  /** Attribution text, e.g., the copyright notice. */
+  attribution: Zod.string(),
+}).readonly();
 
 export type Work = Zod.infer<typeof WorkSchema>;
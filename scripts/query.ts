@@ -0,0 +1,258 @@
+#!/usr/bin/env bun
+
+// Searches a built chunk database from the command line.
+//
+// Queries can come from the command line, from a file with one query per line
+// (`--batch`), or, if there are neither, from an interactive prompt. With
+// `--json`, each query prints a single line of JSON instead of the usual
+// listing.
+
+import process from "node:process";
+import * as Readline from "node:readline/promises";
+import { parseArgs } from "node:util";
+import * as Embedding from "../shared/embeddings";
+import * as Result from "../shared/result";
+import * as Search from "../shared/search";
+import * as ChunkDb from "./lib/chunk-database";
+import type { FinalizedChunk } from "./lib/finalized-chunk";
+import { loadChunkDatabase } from "./lib/load-chunk-database";
+import { readQueryFile } from "./lib/query-file";
+
+export const USAGE =
+  "USAGE -- args: [--mode <semantic|lexical|hybrid>] [--top-k <n>] [--work <id>]... [--json] [--batch <queries.txt>] <db.json> [query...]";
+
+/** Length of the text excerpts in the listing. */
+const EXCERPT_LENGTH = 200;
+
+interface Args {
+  readonly db: string;
+  readonly queries: readonly string[];
+  readonly batch: string | undefined;
+  readonly json: boolean;
+  readonly options: Search.SearchOptions;
+}
+
+async function main(): Promise<void> {
+  const argsResult = parseCliArgs(process.argv.slice(2));
+
+  if (Result.isError(argsResult)) {
+    console.error(argsResult.error);
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const args = argsResult.value;
+
+  const dbResult = loadChunkDatabase(args.db);
+
+  if (Result.isError(dbResult)) {
+    console.error(dbResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const db = dbResult.value;
+
+  // Fail before the slow part if the database was embedded some other way.
+  const compatibilityResult = ChunkDb.checkCompatibility(db);
+
+  if (Result.isError(compatibilityResult)) {
+    console.error(compatibilityResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  let queries = args.queries;
+  if (args.batch !== undefined) {
+    const batchResult = readQueryFile(args.batch);
+
+    if (Result.isError(batchResult)) {
+      console.error(batchResult.error);
+      process.exitCode = 1;
+      return;
+    }
+
+    queries = [...queries, ...batchResult.value];
+  }
+
+  // Lexical searches don't need the model, so don't download it for them.
+  const showPipelineProgress = false;
+  const pipeline =
+    args.options.mode === "lexical"
+      ? undefined
+      : await Embedding.getPipeline(showPipelineProgress);
+
+  const runQuery = async (query: string) => {
+    const searchResult = await ChunkDb.search(
+      db,
+      pipeline,
+      query,
+      args.options,
+    );
+
+    if (Result.isError(searchResult)) {
+      console.error(`Search failed for "${query}": ${searchResult.error}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    if (args.json) {
+      printJson(query, searchResult.value);
+    } else {
+      printListing(query, searchResult.value);
+    }
+  };
+
+  if (queries.length > 0) {
+    for (const query of queries) {
+      await runQuery(query);
+    }
+  } else {
+    await repl(runQuery);
+  }
+}
+
+function parseCliArgs(argv: readonly string[]): Result.Result<Args, string> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: [...argv],
+      options: {
+        mode: { type: "string", default: "hybrid" },
+        "top-k": { type: "string" },
+        work: { type: "string", multiple: true },
+        json: { type: "boolean", default: false },
+        batch: { type: "string" },
+      },
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    return Result.error(`${error}`);
+  }
+
+  const { values, positionals } = parsed;
+
+  if (positionals.length < 1) {
+    return Result.error("Expected a database");
+  }
+
+  const mode = Search.SearchModeSchema.safeParse(values.mode);
+  if (!mode.success) {
+    return Result.error(`Invalid search mode: ${values.mode}`);
+  }
+
+  // Without a limit, stop at the knee point like the app does.
+  let cutoff: Search.Cutoff = Search.KNEE_CUTOFF;
+  if (values["top-k"] !== undefined) {
+    const k = Number(values["top-k"]);
+
+    if (!Number.isInteger(k) || k < 1) {
+      return Result.error("--top-k should be a positive integer");
+    }
+
+    cutoff = { type: "topK", k };
+  }
+
+  const filter = values.work === undefined ? undefined : { works: values.work };
+
+  return Result.ok({
+    db: positionals[0]!,
+    queries: positionals.slice(1),
+    batch: values.batch,
+    json: values.json,
+    options: { mode: mode.data, cutoff, filter },
+  });
+}
+
+async function repl(runQuery: (query: string) => Promise<void>): Promise<void> {
+  const readline = Readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  // Ctrl-D closes the input, which is the usual way out.
+  let closed = false;
+  readline.on("close", () => {
+    closed = true;
+  });
+
+  try {
+    while (!closed) {
+      let query;
+      try {
+        query = (await readline.question("query> ")).trim();
+      } catch {
+        // The question is aborted when the input closes.
+        break;
+      }
+
+      if (query === "") continue;
+      await runQuery(query);
+    }
+  } finally {
+    readline.close();
+  }
+}
+
+/** The chunk's markdown, without the overlap from the chunk before it. */
+function ownText(chunk: FinalizedChunk): string {
+  return chunk.markdownText.slice(chunk.overlapLength ?? 0);
+}
+
+function excerpt(text: string): string {
+  const oneLine = text.replace(/\s+/g, " ").trim();
+
+  return oneLine.length <= EXCERPT_LENGTH
+    ? oneLine
+    : `${oneLine.slice(0, EXCERPT_LENGTH)}…`;
+}
+
+function printListing(
+  query: string,
+  results: readonly ChunkDb.ChunkWithScore[],
+) {
+  console.log(`\n${results.length} results for: ${query}\n`);
+
+  results.forEach((result, i) => {
+    const { chunk } = result;
+    const scores = [`score ${result.score.toFixed(3)}`];
+    if (result.semanticScore !== undefined) {
+      scores.push(`similarity ${result.semanticScore.toFixed(3)}`);
+    }
+    if (result.lexicalScore !== undefined) {
+      scores.push(`keyword ${result.lexicalScore.toFixed(3)}`);
+    }
+
+    console.log(`${i + 1}. [${chunk.work}] ${chunk.headingPath.join(" > ")}`);
+    console.log(`   ${scores.join(", ")}`);
+    if (chunk.sourceUrl !== undefined) {
+      console.log(`   ${chunk.sourceUrl}`);
+    }
+    console.log(`   ${excerpt(ownText(chunk))}\n`);
+  });
+}
+
+function printJson(query: string, results: readonly ChunkDb.ChunkWithScore[]) {
+  const json = {
+    query,
+    results: results.map((result, i) => ({
+      rank: i + 1,
+      score: result.score,
+      semanticScore: result.semanticScore,
+      lexicalScore: result.lexicalScore,
+      id: result.chunk.id,
+      work: result.chunk.work,
+      title: result.chunk.title,
+      headingPath: result.chunk.headingPath,
+      sourceUrl: result.chunk.sourceUrl,
+      cellIndices: result.chunk.cellIndices,
+      excerpt: excerpt(ownText(result.chunk)),
+    })),
+  };
+
+  console.log(JSON.stringify(json));
+}
+
+await main();
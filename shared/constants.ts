@@ -1,5 +1,20 @@
+/**
+ * The version of the serialized chunk database format.
+ *
+ * Bump this whenever the serialized shape changes (including changes to
+ * `FinalizedChunkSchema`), and add a migration to `MIGRATIONS` in
+ * `chunk-database` that upgrades databases from the previous version.
+ */
+export const CHUNK_DATABASE_FORMAT_VERSION = 11;
+
 export const MODEL_NAME = "Xenova/all-MiniLM-L6-v2";
 
+/** Length of the sentence embeddings that `MODEL_NAME` produces. */
+export const EMBEDDING_DIMENSION = 384;
+
+/** Longest input, in tokens, that `MODEL_NAME` was trained on. */
+export const MODEL_MAX_TOKENS = 256;
+
 // The sentence-transformers/all-MiniLM-L6-v2 was trained at 256, even though
 // the underlying transformer 512.
 //
@@ -7,8 +22,15 @@ export const MODEL_NAME = "Xenova/all-MiniLM-L6-v2";
 //
 // Even 200 still gets 66/807 chunks with > 256 tokens. May need to go and
 // adjust it.
+//
+// These are only the defaults of the chunking profiles, though. The embed
+// config can set its own, for all inputs or for each one.
 export const MAX_TOKENS = 200;
 export const TARGET_TOKENS = 200;
 
-// How many tokens of overlap to carry between chunks
-export const OVERLAP_TOKENS = 20;
+// Plain text is split much more simply than markdown, so we can use the exact
+// limit of the model.
+export const TEXT_MAX_TOKENS = 256;
+
+// How many tokens of overlap to carry between chunks.
+export const OVERLAP_TOKENS = 40;
@@ -7,47 +7,74 @@
  * the tensor math that comes from that package and the onnx runtime.
  */
 
-import { useSyncExternalStore } from "react";
 import * as Transformers from "@huggingface/transformers";
 import * as Progress from "./progress";
 import * as Constant from "./constants";
 import * as Result from "./result";
+import { type Cutoff, KNEE_CUTOFF } from "./search";
+
+/**
+ * Everything about the feature extraction pipeline that affects the embeddings
+ * it produces. Embeddings made with different settings can't be meaningfully
+ * compared with each other.
+ */
+export interface PipelineSettings {
+  readonly model: string;
+  /** Length of the embedding vectors. */
+  readonly dimension: number;
+  readonly dtype: Transformers.DataType;
+  readonly pooling:
+    "none" | "mean" | "cls" | "first_token" | "eos" | "last_token";
+  readonly normalize: boolean;
+}
+
+/** The settings we use to embed both the books and the queries. */
+export const PIPELINE_SETTINGS = {
+  model: Constant.MODEL_NAME,
+  dimension: Constant.EMBEDDING_DIMENSION,
+  // We want to use/download the quantized model, as it is much smaller, and
+  // still pretty good.
+  dtype: "uint8",
+  // Average token embeddings
+  pooling: "mean",
+  // Unit-length vectors: this allows us to use matmul for cos sim
+  normalize: true,
+} as const satisfies PipelineSettings;
 
 let pipeline: Promise<Transformers.FeatureExtractionPipeline> | null = null;
 
-/** You should pass false for progress when embedding the book locally. */
+/**
+ * You should pass false for progress when embedding the book locally.
+ *
+ * Passing true reports progress to the `Progress` store. Inside a web worker
+ * that store isn't visible to the UI, so pass a callback to forward the
+ * progress events instead.
+ */
 export function getPipeline(
-  progress: boolean,
+  progress: boolean | ((info: Transformers.ProgressInfo) => void),
 ): Promise<Transformers.FeatureExtractionPipeline> {
   if (pipeline) return pipeline;
 
-  const progress_callback = progress ? Progress.handleProgress : undefined;
+  let progress_callback;
+  if (typeof progress === "function") {
+    progress_callback = progress;
+  } else if (progress) {
+    progress_callback = Progress.handleProgress;
+  }
 
-  const tmp = Transformers.pipeline("feature-extraction", Constant.MODEL_NAME, {
-    progress_callback,
-    // We want to use/download the quantized model, as it is much smaller, and
-    // still pretty good.
-    dtype: "uint8",
-  });
+  const tmp = Transformers.pipeline(
+    "feature-extraction",
+    PIPELINE_SETTINGS.model,
+    {
+      progress_callback,
+      dtype: PIPELINE_SETTINGS.dtype,
+    },
+  );
 
   pipeline = tmp;
   return pipeline;
 }
 
-export function usePipeline() {
-  // Subscribe to progress changes so React will re-render when the progress
-  // updates
-  const progress = useSyncExternalStore(
-    Progress.subscribeCallback,
-    // Get the current state
-    Progress.getSnapshot,
-    // Server side snapshot ...we aren't using that here, but still need it
-    Progress.getSnapshot,
-  );
-
-  return { pipelinePromise: getPipeline(true), progress };
-}
-
 /**
  * Extract features from the given texts.
  */
@@ -62,10 +89,8 @@ export async function extractFeatures(
   // NOTE: We are _not_ using quantization on the embeddings themselves as it
   // breaks our matmul-based similarity math.
   return await featureExtractionPipeline(textsCopy, {
-    // Average token embeddings
-    pooling: "mean",
-    // Unit-length vectors: this allows us to use matmul for cos sim
-    normalize: true,
+    pooling: PIPELINE_SETTINGS.pooling,
+    normalize: PIPELINE_SETTINGS.normalize,
   });
 }
 
@@ -81,8 +106,8 @@ export async function extractFeaturesInBatches(
     const batch = texts.slice(i, i + batchSize);
     // See the note above about why we don't quantize here.
     const embeddings = await featureExtractionPipeline(batch, {
-      pooling: "mean",
-      normalize: true,
+      pooling: PIPELINE_SETTINGS.pooling,
+      normalize: PIPELINE_SETTINGS.normalize,
     });
     allEmbeddings.push(embeddings);
   }
@@ -134,26 +159,72 @@ export function getValuesByIndices(
 }
 
 /**
- * Finds the best results from similarity scores using the knee point method.
+ * Finds the best results from similarity scores.
  *
  * @param scores - Unsorted array of similarity scores (indices map to DB entries)
- * @returns Array of DB indices for results above the knee point, sorted by score descending
+ * @param cutoff - Where to stop taking results, the knee point by default
+ * @returns Array of DB indices for results above the cutoff, sorted by score descending
  */
-export function findBestResults(scores: Float32Array | number[]): number[] {
+export function findBestResults(
+  scores: Float32Array | number[],
+  cutoff: Cutoff = KNEE_CUTOFF,
+): number[] {
   // Create array of {index, score} pairs
   const indexed = Array.from(scores, (score, index) => ({ index, score }));
 
   // Sort by score descending
   indexed.sort((a, b) => b.score - a.score);
 
-  // Extract sorted scores for knee point calculation
+  // Extract sorted scores for the cutoff calculation
   const sortedScores = indexed.map((item) => item.score);
 
-  // Find knee point
-  const cutoff = findKneePoint(sortedScores);
+  const count = cutoffCount(sortedScores, cutoff);
 
   // Return the indices of top results (already sorted by score)
-  return indexed.slice(0, cutoff).map((item) => item.index);
+  return indexed.slice(0, count).map((item) => item.index);
+}
+
+/**
+ * How many of the scores (sorted descending) to keep.
+ *
+ * Every cutoff keeps a prefix of the sorted scores, so combining them is just
+ * taking the shortest or longest prefix.
+ */
+function cutoffCount(sortedScores: number[], cutoff: Cutoff): number {
+  switch (cutoff.type) {
+    case "knee":
+      return findKneePoint(sortedScores);
+    case "topK":
+      return Math.min(Math.max(0, Math.floor(cutoff.k)), sortedScores.length);
+    case "minScore":
+      return countAtLeast(sortedScores, cutoff.score);
+    case "relativeToBest": {
+      if (sortedScores.length === 0) {
+        return 0;
+      }
+
+      // Same as `best * fraction` for positive scores, but doesn't cut the
+      // best result itself when the scores are negative.
+      const best = sortedScores[0]!;
+      const threshold = best - Math.abs(best) * (1 - cutoff.fraction);
+      return countAtLeast(sortedScores, threshold);
+    }
+    case "all":
+      return Math.min(
+        sortedScores.length,
+        ...cutoff.cutoffs.map((c) => cutoffCount(sortedScores, c)),
+      );
+    case "any":
+      return Math.max(
+        0,
+        ...cutoff.cutoffs.map((c) => cutoffCount(sortedScores, c)),
+      );
+  }
+}
+
+function countAtLeast(sortedScores: number[], threshold: number): number {
+  const index = sortedScores.findIndex((score) => score < threshold);
+  return index === -1 ? sortedScores.length : index;
 }
 
 /**
@@ -216,9 +287,16 @@ export const TensorDataSchema = Zod.object({
 
 export type TensorData = Zod.infer<typeof TensorDataSchema>;
 
-export function createTensorData(
+/** The raw values of a 2D float32 tensor, in row-major order. */
+interface Float32Matrix {
+  readonly data: Float32Array;
+  readonly rows: number;
+  readonly columns: number;
+}
+
+function float32MatrixFromTensor(
   tensor: Transformers.Tensor,
-): Result.Result<TensorData, string> {
+): Result.Result<Float32Matrix, string> {
   if (tensor.type !== "float32") {
     return Result.error("Tensor must be of type float32");
   }
@@ -234,10 +312,28 @@ export function createTensorData(
     return Result.error("Tensor dimensions must be 2D");
   }
 
+  return Result.ok({
+    data: tensor.data,
+    rows: tensor.dims[0],
+    columns: tensor.dims[1],
+  });
+}
+
+export function createTensorData(
+  tensor: Transformers.Tensor,
+): Result.Result<TensorData, string> {
+  const matrixResult = float32MatrixFromTensor(tensor);
+
+  if (Result.isError(matrixResult)) {
+    return matrixResult;
+  }
+
+  const matrix = matrixResult.value;
+
   const tensorData: TensorData = {
-    dataType: tensor.type,
-    data: Array.from(tensor.data),
-    dimensions: [tensor.dims[0], tensor.dims[1]],
+    dataType: "float32",
+    data: Array.from(matrix.data),
+    dimensions: [matrix.rows, matrix.columns],
   };
 
   return Result.ok(tensorData);
@@ -301,6 +397,172 @@ export function tensorFromTensorData(
   }
 }
 
+// Binary tensor container
+//
+// The JSON number arrays above are easy to inspect, but they are many times
+// larger than the raw floats and slow to parse in the browser. The binary
+// container is a small fixed-size header followed by the values:
+//
+//   bytes  0-3   magic, "PSEB"
+//   bytes  4-5   format version (u16)
+//   byte   6     encoding (u8), see `BINARY_ENCODING_CODES`
+//   byte   7     reserved, always 0
+//   bytes  8-11  number of rows (u32)
+//   bytes 12-15  number of columns (u32)
+//
+// For the `float32` encoding, the header is followed by rows * columns f32
+// values. For the `int8` encoding, it is followed by one f32 scale per row,
+// then rows * columns i8 values. Multiplying a quantized value by its row's
+// scale gives back (roughly) the original value.
+//
+// Everything is little-endian.
+
+export const BinaryEncodingSchema = Zod.enum(["float32", "int8"]);
+
+export type BinaryEncoding = Zod.infer<typeof BinaryEncodingSchema>;
+
+const BINARY_MAGIC = [0x50, 0x53, 0x45, 0x42] as const;
+const BINARY_FORMAT_VERSION = 1;
+const BINARY_HEADER_BYTES = 16;
+const BINARY_ENCODING_CODES: Readonly<Record<BinaryEncoding, number>> = {
+  float32: 0,
+  int8: 1,
+};
+
+/**
+ * Stands in for the tensor data in a serialized JSON file when the actual
+ * values live in a separate binary container file.
+ */
+export const BinaryTensorReferenceSchema = Zod.object({
+  dataType: Zod.literal("binary"),
+  encoding: BinaryEncodingSchema,
+  /** Path of the binary file, relative to the JSON file that references it. */
+  file: Zod.string(),
+  dimensions: Zod.tuple([Zod.number().min(0), Zod.number().min(0)]),
+}).readonly();
+
+export type BinaryTensorReference = Zod.infer<
+  typeof BinaryTensorReferenceSchema
+>;
+
+export function encodeTensorBinary(
+  tensor: Transformers.Tensor,
+  encoding: BinaryEncoding,
+): Result.Result<ArrayBuffer, string> {
+  const matrixResult = float32MatrixFromTensor(tensor);
+
+  if (Result.isError(matrixResult)) {
+    return matrixResult;
+  }
+
+  const { data, rows, columns } = matrixResult.value;
+
+  const bodyBytes =
+    encoding === "float32" ? data.length * 4 : rows * 4 + data.length;
+  const buffer = new ArrayBuffer(BINARY_HEADER_BYTES + bodyBytes);
+  const view = new DataView(buffer);
+
+  BINARY_MAGIC.forEach((byte, i) => view.setUint8(i, byte));
+  view.setUint16(4, BINARY_FORMAT_VERSION, true);
+  view.setUint8(6, BINARY_ENCODING_CODES[encoding]);
+  view.setUint8(7, 0);
+  view.setUint32(8, rows, true);
+  view.setUint32(12, columns, true);
+
+  if (encoding === "float32") {
+    for (let i = 0; i < data.length; i++) {
+      view.setFloat32(BINARY_HEADER_BYTES + i * 4, data[i]!, true);
+    }
+  } else {
+    const valuesOffset = BINARY_HEADER_BYTES + rows * 4;
+
+    for (let row = 0; row < rows; row++) {
+      const start = row * columns;
+
+      let maxAbs = 0;
+      for (let i = start; i < start + columns; i++) {
+        maxAbs = Math.max(maxAbs, Math.abs(data[i]!));
+      }
+
+      // An all-zero row would give a zero scale, and dividing by that gives
+      // NaNs. Any non-zero scale works there since every value rounds to 0.
+      const scale = maxAbs === 0 ? 1 : maxAbs / 127;
+      view.setFloat32(BINARY_HEADER_BYTES + row * 4, scale, true);
+
+      for (let i = start; i < start + columns; i++) {
+        view.setInt8(valuesOffset + i, Math.round(data[i]! / scale));
+      }
+    }
+  }
+
+  return Result.ok(buffer);
+}
+
+export function decodeTensorBinary(
+  buffer: ArrayBuffer,
+): Result.Result<Transformers.Tensor, string> {
+  if (buffer.byteLength < BINARY_HEADER_BYTES) {
+    return Result.error("Binary tensor data is too short to hold a header");
+  }
+
+  const view = new DataView(buffer);
+
+  const hasMagic = BINARY_MAGIC.every((byte, i) => view.getUint8(i) === byte);
+  if (!hasMagic) {
+    return Result.error("Binary tensor data does not start with PSEB");
+  }
+
+  const version = view.getUint16(4, true);
+  if (version > BINARY_FORMAT_VERSION) {
+    return Result.error(
+      `Binary tensor format version ${version} is newer than the supported version ${BINARY_FORMAT_VERSION}`,
+    );
+  }
+
+  const encodingCode = view.getUint8(6);
+  const encoding = BinaryEncodingSchema.options.find(
+    (name) => BINARY_ENCODING_CODES[name] === encodingCode,
+  );
+  if (encoding === undefined) {
+    return Result.error(`Unknown binary tensor encoding: ${encodingCode}`);
+  }
+
+  const rows = view.getUint32(8, true);
+  const columns = view.getUint32(12, true);
+  const length = rows * columns;
+
+  const bodyBytes = encoding === "float32" ? length * 4 : rows * 4 + length;
+  if (buffer.byteLength !== BINARY_HEADER_BYTES + bodyBytes) {
+    return Result.error(
+      `Expected ${BINARY_HEADER_BYTES + bodyBytes} bytes of binary tensor data, but got ${buffer.byteLength}`,
+    );
+  }
+
+  const data = new Float32Array(length);
+
+  if (encoding === "float32") {
+    for (let i = 0; i < length; i++) {
+      data[i] = view.getFloat32(BINARY_HEADER_BYTES + i * 4, true);
+    }
+  } else {
+    const valuesOffset = BINARY_HEADER_BYTES + rows * 4;
+
+    for (let row = 0; row < rows; row++) {
+      const scale = view.getFloat32(BINARY_HEADER_BYTES + row * 4, true);
+
+      for (let i = row * columns; i < (row + 1) * columns; i++) {
+        data[i] = view.getInt8(valuesOffset + i) * scale;
+      }
+    }
+  }
+
+  try {
+    return Result.ok(new Transformers.Tensor("float32", data, [rows, columns]));
+  } catch (error) {
+    return Result.error(`Failed to create Float32Array: ${error}`);
+  }
+}
+
 export function tensorEqualEnough(
   a: Transformers.Tensor,
   b: Transformers.Tensor,
@@ -1,4 +1,4 @@
-import { type ProgressInfo } from "@huggingface/transformers";
+import type { ProgressInfo } from "@huggingface/transformers";
 
 /** Track a single file's download progress. */
 interface FileProgress {
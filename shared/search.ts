@@ -0,0 +1,66 @@
+/**
+ * @module search
+ * The options of a chunk database search.
+ *
+ * These are kept apart from the search itself, so that the UI thread can use
+ * them without pulling in transformers.js, which only the search worker needs.
+ */
+
+import * as Zod from "zod";
+import type { WorkId } from "../scripts/lib/work";
+
+/**
+ * - `semantic`: rank by cosine similarity of the embeddings
+ * - `lexical`: rank by BM25 score of the query terms
+ * - `hybrid`: combine both rankings with reciprocal rank fusion
+ */
+export const SearchModeSchema = Zod.enum(["semantic", "lexical", "hybrid"]);
+
+export type SearchMode = Zod.infer<typeof SearchModeSchema>;
+
+/**
+ * Decides where to cut off a list of results sorted by score.
+ *
+ * - `knee`: at the knee point of the score curve
+ * - `topK`: after the first `k` results
+ * - `minScore`: at the first result scoring below `score`
+ * - `relativeToBest`: at the first result scoring below `fraction` of the best
+ *   score
+ * - `all`: where the strictest of `cutoffs` would (keep results that all of
+ *   them keep)
+ * - `any`: where the most lenient of `cutoffs` would (keep results that any of
+ *   them keep)
+ */
+export type Cutoff =
+  | { readonly type: "knee" }
+  | { readonly type: "topK"; readonly k: number }
+  | { readonly type: "minScore"; readonly score: number }
+  | { readonly type: "relativeToBest"; readonly fraction: number }
+  | { readonly type: "all"; readonly cutoffs: readonly Cutoff[] }
+  | { readonly type: "any"; readonly cutoffs: readonly Cutoff[] };
+
+export const KNEE_CUTOFF: Cutoff = { type: "knee" };
+
+/**
+ * Which chunks to search. Chunks have to match every field that is set, and
+ * unset fields match everything.
+ */
+export interface SearchFilter {
+  /** Chunks from any of these works. */
+  readonly works?: readonly WorkId[];
+  /** Chunks from any of the documents with these titles. */
+  readonly titles?: readonly string[];
+  /** Chunks whose heading path starts with these headings. */
+  readonly headingPathPrefix?: readonly string[];
+  /** Chunks with blocks of all of these types, e.g., `code` or `table`. */
+  readonly blockTypes?: readonly string[];
+}
+
+export interface SearchOptions {
+  /** Defaults to `semantic`. */
+  readonly mode?: SearchMode;
+  /** Where to stop taking results. Defaults to the knee point. */
+  readonly cutoff?: Cutoff;
+  /** Defaults to searching every chunk. */
+  readonly filter?: SearchFilter;
+}
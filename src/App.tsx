@@ -1,12 +1,30 @@
-import * as Transformers from "@huggingface/transformers";
 import type { HighlighterCore } from "@shikijs/types";
-import { Suspense, use, useState } from "react";
+import { Suspense, use, useRef, useState } from "react";
 import * as ShikiCore from "react-shiki/core";
 import dbUrl from "../db/db.json?url";
-import * as ChunkDB from "../scripts/lib/chunk-database";
-import * as Embeddings from "../shared/embeddings";
+import type * as ChunkDB from "../scripts/lib/chunk-database";
+import type { Work, WorkId } from "../scripts/lib/work";
+import * as Constant from "../shared/constants";
 import * as Result from "../shared/result";
+import * as Search from "../shared/search";
 import "./App.css";
+import * as SearchClient from "./search-client";
+import type { DatabaseSummary, SearchResults } from "./search-protocol";
+
+/**
+ * The binary embeddings files next to the database, by file name. Vite renames
+ * the files it bundles, so the worker can't find them from the database URL
+ * alone. Which one we need, if any, is up to the database.
+ */
+const embeddingsUrls = Object.fromEntries(
+  Object.entries(
+    import.meta.glob<string>("../db/*.bin", {
+      query: "?url",
+      import: "default",
+      eager: true,
+    }),
+  ).map(([path, url]) => [path.replace(/^\.\.\/db\//, ""), url]),
+);
 
 let highlighterCache: Promise<HighlighterCore> | null = null;
 
@@ -28,40 +46,6 @@ function getHighlighter(): Promise<HighlighterCore> {
   return highlighterCache;
 }
 
-let dbResultCache: Promise<
-  Result.Result<ChunkDB.ChunkDatabase, string>
-> | null = null;
-
-function fetchDb(
-  url: string,
-): Promise<Result.Result<ChunkDB.ChunkDatabase, string>> {
-  if (dbResultCache) return dbResultCache;
-
-  const doFetchDb = async () => {
-    // Wrap it in a try so that we can clear the cache on unexpected errors.
-    try {
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        return Result.error(`HTTP error! status: ${response.status}`);
-      }
-
-      const json = await response.json();
-      return ChunkDB.deserializeChunkDatabase(json);
-    } catch (error) {
-      return Result.error(`Failed to fetch database: ${error}`);
-    }
-  };
-
-  const result = doFetchDb().catch((error) => {
-    // Clear the cache if there is some unhandled error.
-    dbResultCache = null;
-    throw error;
-  });
-  dbResultCache = result;
-  return dbResultCache;
-}
-
 function App() {
   const [showMemoryAlert, setShowMemoryAlert] = useState(true);
 
@@ -76,7 +60,7 @@ function App() {
     );
   }
 
-  const dbObjectPromise = fetchDb(dbUrl);
+  const dbObjectPromise = SearchClient.loadDb(dbUrl, embeddingsUrls);
   const dbResult = use(dbObjectPromise);
 
   // Put it outside of here so we can avoid the suspense/download if the chunkdb
@@ -143,64 +127,183 @@ function Consent({
   );
 }
 
-type DataSources = {
-  "Applied Python Programming": boolean;
-  "The Python Tutorial": boolean;
+/** Whether to search each work, by work ID. */
+type DataSources = Record<WorkId, boolean>;
+
+interface SearchRequest {
+  readonly query: string;
+  readonly options: Search.SearchOptions;
+}
+
+/** How many results to show at first, and how many more to add each time. */
+const RESULTS_PAGE_SIZE = 25;
+
+/**
+ * New searches stop at the knee point, but never show more than a page of
+ * results.
+ */
+const INITIAL_CUTOFF: Search.Cutoff = {
+  type: "all",
+  cutoffs: [Search.KNEE_CUTOFF, { type: "topK", k: RESULTS_PAGE_SIZE }],
 };
 
+/**
+ * Showing more results goes past the knee point, so only the number of results
+ * limits them.
+ */
+function showMoreRequest(
+  request: SearchRequest,
+  resultCount: number,
+): SearchRequest {
+  return {
+    ...request,
+    options: {
+      ...request.options,
+      cutoff: { type: "topK", k: resultCount + RESULTS_PAGE_SIZE },
+    },
+  };
+}
+
+/**
+ * Whether asking for more results could give any. A top-k search that came up
+ * short has already found everything that matches, and no search can find more
+ * than the `matchCount` chunks that match its filter.
+ */
+function canShowMore(
+  request: SearchRequest,
+  resultCount: number,
+  matchCount: number,
+): boolean {
+  const cutoff = request.options.cutoff;
+
+  if (cutoff?.type === "topK" && resultCount < cutoff.k) {
+    return false;
+  }
+
+  return resultCount < matchCount;
+}
+
 function ProfessorContent({
   db,
   showMemoryAlert,
   setShowMemoryAlert,
 }: {
-  db: ChunkDB.ChunkDatabase;
+  db: DatabaseSummary;
   showMemoryAlert: boolean;
   setShowMemoryAlert: React.Dispatch<React.SetStateAction<boolean>>;
 }) {
   const [searchResult, setSearchResult] = useState<
-    Result.Result<ChunkDB.ChunkWithScore[], string> | undefined
+    Result.Result<SearchResults, string> | undefined
   >(undefined);
-  const [dataSources, setDataSources] = useState<DataSources>({
-    "Applied Python Programming": true,
-    "The Python Tutorial": true,
-  });
+  const [lastRequest, setLastRequest] = useState<SearchRequest | undefined>(
+    undefined,
+  );
+  const [dataSources, setDataSources] = useState<DataSources>(() =>
+    Object.fromEntries(db.works.map((work) => [work.id, true])),
+  );
 
-  const { pipelinePromise } = Embeddings.usePipeline();
+  // The search that is still running, if any. Starting a new search or
+  // clearing the form cancels it.
+  const runningSearchId = useRef<number | undefined>(undefined);
+
+  const cancelRunningSearch = () => {
+    if (runningSearchId.current !== undefined) {
+      SearchClient.cancel(runningSearchId.current);
+      runningSearchId.current = undefined;
+    }
+  };
 
-  // Use `use` to unwrap the pipeline promise for the Suspense component
-  const pipeline = use(pipelinePromise);
+  const runSearch = async (request: SearchRequest) => {
+    cancelRunningSearch();
+    const pendingSearch = SearchClient.search(request.query, request.options);
+    runningSearchId.current = pendingSearch.id;
+
+    const newSearchResult = await pendingSearch.result;
+
+    // Cancelled searches have nothing to show. The worker may have finished a
+    // search before it got the cancel message, so that search still has
+    // results, but another search or clearing the form has replaced it.
+    if (
+      newSearchResult === undefined ||
+      runningSearchId.current !== pendingSearch.id
+    ) {
+      return;
+    }
+
+    runningSearchId.current = undefined;
+    setLastRequest(request);
+    setSearchResult(newSearchResult);
+  };
+
+  const clearSearch = () => {
+    cancelRunningSearch();
+    setLastRequest(undefined);
+    setSearchResult(undefined);
+  };
+
+  const { pipelinePromise } = SearchClient.usePipeline();
+
+  // Use `use` to unwrap the pipeline promise for the Suspense component. The
+  // pipeline itself lives in the search worker, so all we get is whether it
+  // loaded.
+  const pipelineResult = use(pipelinePromise);
 
   const highlighterPromise = getHighlighter();
   const highlighter = use(highlighterPromise);
 
   // const query = "Why is Python a good language to learn for bioinformatics?";
 
+  const worksById = new Map(db.works.map((work) => [work.id, work]));
+
   let searchResultDisplay;
   if (searchResult === undefined) {
     searchResultDisplay = <></>;
   } else if (Result.isOk(searchResult)) {
     searchResultDisplay = [];
-    const length = Math.min(searchResult.value.length, 25);
-    for (let i = 0; i < length; i++) {
-      const chunkWithScore = searchResult.value[i];
-      if (dataSources[chunkWithScore.chunk.work]) {
-        const jsx = (
-          <ChunkWithScoreView
-            chunkWithScore={chunkWithScore}
-            key={chunkWithScore.chunk.id}
-            highlighter={highlighter}
-          />
-        );
-        searchResultDisplay.push(jsx);
-      }
+    for (const chunkWithScore of searchResult.value.chunks) {
+      const jsx = (
+        <ChunkWithScoreView
+          chunkWithScore={chunkWithScore}
+          work={worksById.get(chunkWithScore.chunk.work)}
+          key={chunkWithScore.chunk.id}
+          highlighter={highlighter}
+        />
+      );
+      searchResultDisplay.push(jsx);
+    }
+
+    const resultCount = searchResult.value.chunks.length;
+    if (
+      lastRequest !== undefined &&
+      canShowMore(lastRequest, resultCount, searchResult.value.matchCount)
+    ) {
+      searchResultDisplay.push(
+        <button
+          className="btn btn-block btn-sm"
+          key="show-more"
+          onClick={() => runSearch(showMoreRequest(lastRequest, resultCount))}
+        >
+          Show more results
+        </button>,
+      );
     }
   } else {
     searchResultDisplay = <p>Search result error: {searchResult.error}</p>;
   }
 
+  if (Result.isError(pipelineResult)) {
+    return (
+      <div>
+        <h1 className="text-4xl font-bold">Professor Suhotro</h1>
+        <p>Error loading search model: {pipelineResult.error}</p>
+      </div>
+    );
+  }
+
   return (
     <div className="">
       <IntroContent
+        works={db.works}
         showMemoryAlert={showMemoryAlert}
         setShowMemoryAlert={setShowMemoryAlert}
       />
@@ -209,20 +312,47 @@ function ProfessorContent({
 
       <SearchForm
         db={db}
-        pipeline={pipeline}
-        setSearchResult={setSearchResult}
+        runSearch={runSearch}
+        clearSearch={clearSearch}
         dataSources={dataSources}
         setDataSources={setDataSources}
       />
       {searchResultDisplay}
+
+      <DatabaseInfo db={db} />
     </div>
   );
 }
 
+function DatabaseInfo({ db }: { db: DatabaseSummary }) {
+  const migrated = db.formatVersion !== Constant.CHUNK_DATABASE_FORMAT_VERSION;
+
+  return (
+    <p className="mt-4 text-xs text-zinc-500">
+      Searching {db.chunkCount} passages embedded with{" "}
+      {db.metadata.embeddingModel} (database format version {db.formatVersion}
+      {migrated && `, upgraded to ${Constant.CHUNK_DATABASE_FORMAT_VERSION}`},
+      built {db.metadata.createdAt}).
+      {db.works.map((work) => (
+        <span key={work.id}>
+          {" "}
+          {work.name}: {work.attribution}, licensed under {work.license}.
+        </span>
+      ))}
+    </p>
+  );
+}
+
+/**
+ * The works aren't known until the database loads, so on the consent screen we
+ * leave out the part about where the data comes from.
+ */
 function IntroContent({
+  works,
   showMemoryAlert,
   setShowMemoryAlert,
 }: {
+  works?: readonly Work[];
   showMemoryAlert: boolean;
   setShowMemoryAlert: React.Dispatch<React.SetStateAction<boolean>>;
 }) {
@@ -250,24 +380,38 @@ function IntroContent({
         Hi! I'm Professor Suhotro, and I'm here to help you find answers to your
         Python questions!
       </p>
-      <p className="mb-2 text-xs text-zinc-500">
-        I get my data from the book{" "}
-        <a className="link" href="https://appliedpythonprogramming.com/">
-          Applied Python Programming for Life Scientists
-        </a>{" "}
-        and from{" "}
-        <a
-          className="link"
-          href="https://docs.python.org/3/tutorial/index.html"
-        >
-          The Python Tutorial
-        </a>
-        .
-      </p>
+      {works && works.length > 0 && (
+        <p className="mb-2 text-xs text-zinc-500">
+          I get my data from <WorkLinks works={works} />.
+        </p>
+      )}
     </div>
   );
 }
 
+/** Links to the works, joined like "A, B, and C". */
+function WorkLinks({ works }: { works: readonly Work[] }) {
+  return works.map((work, i) => {
+    let separator = "";
+    if (i > 0 && works.length === 2) {
+      separator = " and ";
+    } else if (i > 0 && i === works.length - 1) {
+      separator = ", and ";
+    } else if (i > 0) {
+      separator = ", ";
+    }
+
+    return (
+      <span key={work.id}>
+        {separator}
+        <a className="link" href={work.baseUrl}>
+          {work.name}
+        </a>
+      </span>
+    );
+  });
+}
+
 function MemoryAlert({ onDismiss }: { onDismiss: () => void }) {
   return (
     <div className="alert alert-warning mb-3">
@@ -320,18 +464,14 @@ function Instructions() {
 
 function SearchForm({
   db,
-  pipeline,
-  setSearchResult,
+  runSearch,
+  clearSearch,
   dataSources,
   setDataSources,
 }: {
-  db: ChunkDB.ChunkDatabase;
-  pipeline: Transformers.FeatureExtractionPipeline;
-  setSearchResult: React.Dispatch<
-    React.SetStateAction<
-      Result.Result<ChunkDB.ChunkWithScore[], string> | undefined
-    >
-  >;
+  db: DatabaseSummary;
+  runSearch: (request: SearchRequest) => Promise<void>;
+  clearSearch: () => void;
   dataSources: DataSources;
   setDataSources: React.Dispatch<React.SetStateAction<DataSources>>;
 }) {
@@ -340,7 +480,7 @@ function SearchForm({
       <div className="">
         <form
           className=""
-          onSubmit={handleSearchFormSubmit(db, pipeline, setSearchResult)}
+          onSubmit={(event) => handleSearchFormSubmit(event, runSearch)}
         >
           <fieldset className="flex flex-col mt-1">
             <legend className="label">Data Sources</legend>
@@ -349,47 +489,52 @@ function SearchForm({
               <p className="mt-0.5 mb-1.5 text-[0.6rem]">
                 Select all data sources you want to search!
               </p>
-              <div className="flex items-center">
-                <input
-                  type="checkbox"
-                  id="check-applied-python-programming"
-                  name="check-work"
-                  value="applied-python-programming"
-                  className="mr-1.5 w-3 h-3"
-                  checked={dataSources["Applied Python Programming"]}
-                  onChange={(e) =>
-                    setDataSources({
-                      ...dataSources,
-                      "Applied Python Programming": e.target.checked,
-                    })
-                  }
-                ></input>
-                <label htmlFor="check-applied-python-programming">
-                  Applied Python Programming
-                </label>
-              </div>
-              <div className="flex items-center">
-                <input
-                  type="checkbox"
-                  id="check-the-python-tutorial"
-                  name="check-work"
-                  value="the-python-tutorial"
-                  className="mr-1.5 w-3 h-3"
-                  checked={dataSources["The Python Tutorial"]}
-                  onChange={(e) =>
-                    setDataSources({
-                      ...dataSources,
-                      "The Python Tutorial": e.target.checked,
-                    })
-                  }
-                ></input>
-                <label htmlFor="check-the-python-tutorial">
-                  The Python Tutorial
-                </label>
-              </div>
+              {db.works.map((work, i) => (
+                <div className="flex items-center" key={work.id}>
+                  <input
+                    type="checkbox"
+                    id={`check-work-${i}`}
+                    name="check-work"
+                    value={work.id}
+                    className="mr-1.5 w-3 h-3"
+                    checked={dataSources[work.id] ?? true}
+                    onChange={(e) =>
+                      setDataSources({
+                        ...dataSources,
+                        [work.id]: e.target.checked,
+                      })
+                    }
+                  ></input>
+                  <label htmlFor={`check-work-${i}`}>{work.name}</label>
+                </div>
+              ))}
             </span>
           </fieldset>
 
+          <div className="flex items-center mt-1 text-xs">
+            <input
+              type="checkbox"
+              id="onlyCode"
+              name="onlyCode"
+              className="mr-1.5 w-3 h-3"
+            ></input>
+            <label htmlFor="onlyCode">Only show passages with code</label>
+          </div>
+
+          <label htmlFor="searchMode" className="label mb-1 mt-1">
+            Search by:
+          </label>
+          <select
+            className="select select-sm w-full my-1"
+            id="searchMode"
+            name="searchMode"
+            defaultValue="hybrid"
+          >
+            <option value="hybrid">Meaning and keywords</option>
+            <option value="semantic">Meaning only</option>
+            <option value="lexical">Keywords only</option>
+          </select>
+
           <label
             htmlFor="searchQuery"
             className="label mb-1 mt-1"
@@ -411,7 +556,7 @@ function SearchForm({
               className="btn btn-block btn-sm mt-1"
               onClick={(e) => {
                 e.preventDefault();
-                setSearchResult(undefined);
+                clearSearch();
                 const form = e.currentTarget.form;
                 if (form) {
                   form.reset();
@@ -427,53 +572,87 @@ function SearchForm({
   );
 }
 
-function handleSearchFormSubmit(
-  db: ChunkDB.ChunkDatabase,
-  pipeline: Transformers.FeatureExtractionPipeline,
-  setSearchResult: React.Dispatch<
-    React.SetStateAction<
-      Result.Result<ChunkDB.ChunkWithScore[], string> | undefined
-    >
-  >,
+async function handleSearchFormSubmit(
+  event: React.FormEvent<HTMLFormElement>,
+  runSearch: (request: SearchRequest) => Promise<void>,
 ) {
-  return async function (event: React.FormEvent<HTMLFormElement>) {
-    event.preventDefault();
-    const form = event.currentTarget;
-    const formData = new FormData(form);
-    const formJson = Object.fromEntries(formData.entries());
-    if ("searchQuery" in formJson) {
-      const searchQuery = formJson.searchQuery.toString();
-      // setSearchQuery(() => searchQuery.toString());
-      const newSearchResult = await ChunkDB.search(db, pipeline, searchQuery);
-      setSearchResult(newSearchResult);
-    }
-  };
+  event.preventDefault();
+  const form = event.currentTarget;
+  const formData = new FormData(form);
+  const formJson = Object.fromEntries(formData.entries());
+  if ("searchQuery" in formJson) {
+    const searchQuery = formJson.searchQuery.toString();
+    // setSearchQuery(() => searchQuery.toString());
+    const mode = Search.SearchModeSchema.catch("hybrid").parse(
+      formJson.searchMode,
+    );
+
+    // Checkboxes only show up in the form data when they are checked.
+    const filter: Search.SearchFilter = {
+      works: formData.getAll("check-work").map((work) => work.toString()),
+      blockTypes: "onlyCode" in formJson ? ["code"] : undefined,
+    };
+
+    await runSearch({
+      query: searchQuery,
+      options: { mode, cutoff: INITIAL_CUTOFF, filter },
+    });
+  }
 }
 
 function ChunkWithScoreView({
   chunkWithScore,
+  work,
   highlighter,
 }: {
   chunkWithScore: ChunkDB.ChunkWithScore;
+  work: Work | undefined;
   highlighter: HighlighterCore;
 }) {
-  const work = chunkWithScore.chunk.work;
   const headingPath = chunkWithScore.chunk.headingPath.join(" › ");
-
-  // TODO: to get a link to the section working we need:
-  // 1. the chapter's URL thing, which would be xyz in this: blah.com/xyz/#something else
-  // 2. the slugified section name, which is the final entry in the headingPath. Ideally you have the same slug logic as is used by the quarto site.
-  // 3. Some sections have specific names like {#sec-apple-pie}, in this case the url uses those special names
+  const sourceUrl = chunkWithScore.chunk.sourceUrl;
+  const cellIndices = chunkWithScore.chunk.cellIndices;
+  const { markdownText, overlapLength = 0 } = chunkWithScore.chunk;
+  // Table rows only line up if they stay on one line each.
+  const wrap = !chunkWithScore.chunk.blockTypes.includes("table");
 
   return (
     <div className="card bg-base-200 my-4 card-border">
       <div className="card-body">
-        <h2 className="card-title">{headingPath}</h2>
-        <p>From: {work}</p>
-        <p>Similarity score: {chunkWithScore.score.toFixed(2)}</p>
+        <h2 className="card-title">
+          {sourceUrl ? (
+            <a className="link" href={sourceUrl}>
+              {headingPath}
+            </a>
+          ) : (
+            headingPath
+          )}
+        </h2>
+        <p>From: {work?.name ?? chunkWithScore.chunk.work}</p>
+        {cellIndices && (
+          <p>
+            Notebook {cellIndices.length === 1 ? "cell" : "cells"}:{" "}
+            {cellIndices.map((i) => i + 1).join(", ")}
+          </p>
+        )}
+        {chunkWithScore.semanticScore !== undefined && (
+          <p>Similarity score: {chunkWithScore.semanticScore.toFixed(2)}</p>
+        )}
+        {chunkWithScore.lexicalScore !== undefined && (
+          <p>Keyword score: {chunkWithScore.lexicalScore.toFixed(2)}</p>
+        )}
+        {overlapLength > 0 && (
+          <MarkdownCode
+            code={markdownText.slice(0, overlapLength)}
+            highlighter={highlighter}
+            wrap={wrap}
+            dimmed
+          />
+        )}
         <MarkdownCode
-          code={chunkWithScore.chunk.markdownText}
+          code={markdownText.slice(overlapLength)}
           highlighter={highlighter}
+          wrap={wrap}
         />
       </div>
     </div>
@@ -483,13 +662,21 @@ function ChunkWithScoreView({
 function MarkdownCode({
   code,
   highlighter,
+  wrap,
+  dimmed = false,
 }: {
   code: string;
   highlighter: HighlighterCore;
+  wrap: boolean;
+  /** For the overlap with the chunk before, which isn't what matched. */
+  dimmed?: boolean;
 }) {
   //m-5 whitespace-pre-wrap wrap-break-word
   return (
-    <div className="shiki-wrapper my-1">
+    <div
+      className={`shiki-wrapper my-1${dimmed ? " opacity-50" : ""}`}
+      title={dimmed ? "Overlap with the previous chunk" : undefined}
+    >
       <ShikiCore.ShikiHighlighter
         highlighter={highlighter}
         language="markdown"
@@ -499,10 +686,9 @@ function MarkdownCode({
         }}
         showLanguage={false}
         style={
-          {
-            whiteSpace: "pre-wrap",
-            overflowWrap: "anywhere",
-          } as React.CSSProperties
+          (wrap
+            ? { whiteSpace: "pre-wrap", overflowWrap: "anywhere" }
+            : { whiteSpace: "pre", overflowX: "auto" }) as React.CSSProperties
         }
       >
         {code}
@@ -512,7 +698,7 @@ function MarkdownCode({
 }
 
 function Loading() {
-  const { progress } = Embeddings.usePipeline();
+  const { progress } = SearchClient.usePipeline();
 
   // Check if all files are at 100%
   //
@@ -0,0 +1,195 @@
+/**
+ * @module search-client
+ * The UI side of the search worker. Wraps the message passing in promises, and
+ * feeds the model download progress from the worker into the `Progress` store
+ * so `usePipeline` can show it.
+ */
+
+import { useSyncExternalStore } from "react";
+import * as Progress from "../shared/progress";
+import * as Result from "../shared/result";
+import type * as Search from "../shared/search";
+import type * as Protocol from "./search-protocol";
+
+/** A reply to a request, or a note that the worker died before replying. */
+type Reply =
+  | Exclude<Protocol.Response, { type: "progress" }>
+  | {
+      readonly type: "workerError";
+      readonly id: number;
+      readonly error: string;
+    };
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pendingReplies = new Map<number, (reply: Reply) => void>();
+
+let dbCache: Promise<Result.Result<Protocol.DatabaseSummary, string>> | null =
+  null;
+let modelCache: Promise<Result.Result<null, string>> | null = null;
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  const newWorker = new Worker(new URL("./search-worker.ts", import.meta.url), {
+    type: "module",
+  });
+
+  newWorker.addEventListener(
+    "message",
+    (event: MessageEvent<Protocol.Response>) => handleResponse(event.data),
+  );
+
+  newWorker.addEventListener("error", (event) => {
+    handleWorkerError(`The search worker crashed: ${event.message}`);
+  });
+
+  worker = newWorker;
+  return worker;
+}
+
+function handleResponse(response: Protocol.Response) {
+  if (response.type === "progress") {
+    Progress.handleProgress(response.info);
+    return;
+  }
+
+  const resolve = pendingReplies.get(response.id);
+  pendingReplies.delete(response.id);
+  resolve?.(response);
+}
+
+/**
+ * Everything the worker had loaded is gone, so fail whatever was waiting on it
+ * and clear the caches. The next request starts a fresh worker.
+ */
+function handleWorkerError(error: string) {
+  worker?.terminate();
+  worker = null;
+  dbCache = null;
+  modelCache = null;
+
+  const waiting = [...pendingReplies.entries()];
+  pendingReplies.clear();
+
+  for (const [id, resolve] of waiting) {
+    resolve({ type: "workerError", id, error });
+  }
+}
+
+function send(makeRequest: (id: number) => Protocol.Request): {
+  id: number;
+  reply: Promise<Reply>;
+} {
+  const id = nextId++;
+  const reply = new Promise<Reply>((resolve) =>
+    pendingReplies.set(id, resolve),
+  );
+  getWorker().postMessage(makeRequest(id));
+
+  return { id, reply };
+}
+
+function unexpectedReply(reply: Reply): Result.Error<string> {
+  if (reply.type === "workerError") return Result.error(reply.error);
+
+  return Result.error(`Unexpected reply from the search worker: ${reply.type}`);
+}
+
+/**
+ * Load the database in the worker. Only loads it once.
+ *
+ * `embeddingsUrls` maps the names of binary embeddings files to their URLs, for
+ * files that aren't where the database says they are.
+ */
+export function loadDb(
+  url: string,
+  embeddingsUrls: Readonly<Record<string, string>>,
+): Promise<Result.Result<Protocol.DatabaseSummary, string>> {
+  if (dbCache) return dbCache;
+
+  const { reply: pendingReply } = send((id) => ({
+    type: "loadDb",
+    id,
+    url,
+    embeddingsUrls,
+  }));
+
+  dbCache = pendingReply.then((reply) => {
+    if (reply.type === "dbLoaded") return reply.result;
+
+    // Don't keep failures around so that we can try again later.
+    dbCache = null;
+    return unexpectedReply(reply);
+  });
+
+  return dbCache;
+}
+
+/** Load the embedding model in the worker. Only loads it once. */
+export function loadModel(): Promise<Result.Result<null, string>> {
+  if (modelCache) return modelCache;
+
+  const { reply: pendingReply } = send((id) => ({ type: "loadModel", id }));
+
+  modelCache = pendingReply.then((reply) => {
+    if (reply.type === "modelLoaded") return reply.result;
+
+    modelCache = null;
+    return unexpectedReply(reply);
+  });
+
+  return modelCache;
+}
+
+export interface PendingSearch {
+  /** Pass this to `cancel` to cancel the search. */
+  readonly id: number;
+  /** Resolves to `undefined` if the search was cancelled. */
+  readonly result: Promise<
+    Result.Result<Protocol.SearchResults, string> | undefined
+  >;
+}
+
+/** Search the database that `loadDb` loaded. */
+export function search(
+  query: string,
+  options: Search.SearchOptions,
+): PendingSearch {
+  const { id, reply: pendingReply } = send((requestId) => ({
+    type: "search",
+    id: requestId,
+    query,
+    options,
+  }));
+
+  const result = pendingReply.then((reply) => {
+    if (reply.type === "searchDone") return reply.result;
+    if (reply.type === "searchCancelled") return undefined;
+
+    return unexpectedReply(reply);
+  });
+
+  return { id, result };
+}
+
+export function cancel(searchId: number) {
+  worker?.postMessage({
+    type: "cancel",
+    id: searchId,
+  } satisfies Protocol.Request);
+}
+
+export function usePipeline() {
+  // Subscribe to progress changes so React will re-render when the progress
+  // updates
+  const progress = useSyncExternalStore(
+    Progress.subscribeCallback,
+    // Get the current state
+    Progress.getSnapshot,
+    // Server side snapshot ...we aren't using that here, but still need it
+    Progress.getSnapshot,
+  );
+
+  return { pipelinePromise: loadModel(), progress };
+}
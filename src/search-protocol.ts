@@ -0,0 +1,66 @@
+/**
+ * @module search-protocol
+ * The messages that the UI thread and the search worker send each other.
+ *
+ * Every request except `cancel` gets exactly one reply with the same `id`.
+ * Progress events for the model download are sent whenever they happen.
+ */
+
+import type { ProgressInfo } from "@huggingface/transformers";
+import type * as ChunkDB from "../scripts/lib/chunk-database";
+import type * as Result from "../shared/result";
+import type * as Search from "../shared/search";
+
+/** Everything about a loaded database the UI needs, minus the heavy parts. */
+export interface DatabaseSummary {
+  readonly formatVersion: number;
+  readonly works: ChunkDB.ChunkDatabase["works"];
+  readonly metadata: ChunkDB.ChunkDatabase["metadata"];
+  readonly chunkCount: number;
+}
+
+export interface SearchResults {
+  readonly chunks: ChunkDB.ChunkWithScore[];
+  /** How many chunks match the search's filter, whatever the cutoff. */
+  readonly matchCount: number;
+}
+
+export type Request =
+  | {
+      readonly type: "loadDb";
+      readonly id: number;
+      readonly url: string;
+      /** Binary embeddings files by name, see `SearchClient.loadDb`. */
+      readonly embeddingsUrls: Readonly<Record<string, string>>;
+    }
+  | { readonly type: "loadModel"; readonly id: number }
+  | {
+      readonly type: "search";
+      readonly id: number;
+      readonly query: string;
+      readonly options: Search.SearchOptions;
+    }
+  | {
+      readonly type: "cancel";
+      /** The `id` of the search to cancel. */
+      readonly id: number;
+    };
+
+export type Response =
+  | { readonly type: "progress"; readonly info: ProgressInfo }
+  | {
+      readonly type: "dbLoaded";
+      readonly id: number;
+      readonly result: Result.Result<DatabaseSummary, string>;
+    }
+  | {
+      readonly type: "modelLoaded";
+      readonly id: number;
+      readonly result: Result.Result<null, string>;
+    }
+  | {
+      readonly type: "searchDone";
+      readonly id: number;
+      readonly result: Result.Result<SearchResults, string>;
+    }
+  | { readonly type: "searchCancelled"; readonly id: number };
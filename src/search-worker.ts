@@ -0,0 +1,174 @@
+/**
+ * @module search-worker
+ * Runs the database loading, the embedding pipeline, and the searches off of
+ * the UI thread, so the page doesn't freeze while they work.
+ *
+ * Talk to it with the messages in `search-protocol`, or better yet, through
+ * `search-client`.
+ */
+
+import * as ChunkDB from "../scripts/lib/chunk-database";
+import * as Embeddings from "../shared/embeddings";
+import * as Result from "../shared/result";
+import type * as Protocol from "./search-protocol";
+
+let db: ChunkDB.ChunkDatabase | undefined;
+
+/** Searches that have started but not finished. */
+const runningSearches = new Set<number>();
+
+/** Running searches that should not report their results. */
+const cancelledSearches = new Set<number>();
+
+function post(response: Protocol.Response) {
+  self.postMessage(response);
+}
+
+/** Forward the model download progress to the UI thread. */
+function getPipeline() {
+  return Embeddings.getPipeline((info) => post({ type: "progress", info }));
+}
+
+self.addEventListener("message", (event: MessageEvent<Protocol.Request>) => {
+  void handleRequest(event.data);
+});
+
+async function handleRequest(request: Protocol.Request) {
+  switch (request.type) {
+    case "loadDb": {
+      const result = await loadDb(request.url, request.embeddingsUrls);
+      post({ type: "dbLoaded", id: request.id, result });
+      return;
+    }
+    case "loadModel": {
+      const result = await loadModel();
+      post({ type: "modelLoaded", id: request.id, result });
+      return;
+    }
+    case "search": {
+      await runSearch(request);
+      return;
+    }
+    case "cancel": {
+      if (runningSearches.has(request.id)) {
+        cancelledSearches.add(request.id);
+      }
+      return;
+    }
+  }
+}
+
+async function loadDb(
+  url: string,
+  embeddingsUrls: Readonly<Record<string, string>>,
+): Promise<Result.Result<Protocol.DatabaseSummary, string>> {
+  const dbResult = await fetchDb(url, embeddingsUrls);
+
+  if (Result.isError(dbResult)) return dbResult;
+
+  // Make sure we can search the database with the app's pipeline.
+  const compatibilityResult = ChunkDB.checkCompatibility(dbResult.value);
+
+  if (Result.isError(compatibilityResult)) return compatibilityResult;
+
+  db = compatibilityResult.value;
+
+  return Result.ok({
+    formatVersion: db.formatVersion,
+    works: db.works,
+    metadata: db.metadata,
+    chunkCount: db.chunks.length,
+  });
+}
+
+/**
+ * If the JSON references a binary embeddings file, it is fetched from the same
+ * place as the JSON, unless `embeddingsUrls` says where it is.
+ */
+async function fetchDb(
+  url: string,
+  embeddingsUrls: Readonly<Record<string, string>>,
+): Promise<Result.Result<ChunkDB.ChunkDatabase, string>> {
+  try {
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      return Result.error(`HTTP error! status: ${response.status}`);
+    }
+
+    const json = await response.json();
+
+    // Databases with inline JSON embeddings are self contained.
+    const embeddingsFile = ChunkDB.binaryEmbeddingsFile(json);
+    if (embeddingsFile === undefined) {
+      return ChunkDB.deserializeChunkDatabase(json);
+    }
+
+    const embeddingsUrl =
+      embeddingsUrls[embeddingsFile] ??
+      new URL(embeddingsFile, new URL(url, self.location.href)).href;
+    const embeddingsResponse = await fetch(embeddingsUrl);
+
+    if (!embeddingsResponse.ok) {
+      return Result.error(
+        `HTTP error fetching ${embeddingsFile}! status: ${embeddingsResponse.status}`,
+      );
+    }
+
+    const embeddings = await embeddingsResponse.arrayBuffer();
+    return ChunkDB.deserializeChunkDatabase(json, embeddings);
+  } catch (error) {
+    return Result.error(`Failed to fetch database: ${error}`);
+  }
+}
+
+async function loadModel(): Promise<Result.Result<null, string>> {
+  try {
+    await getPipeline();
+    return Result.ok(null);
+  } catch (error) {
+    return Result.error(`Failed to load the search model: ${error}`);
+  }
+}
+
+/**
+ * Once a search is running, we can't interrupt the model or the matrix math,
+ * so cancelling just means that we throw away the results.
+ */
+async function runSearch(request: Protocol.Request & { type: "search" }) {
+  runningSearches.add(request.id);
+
+  let result: Result.Result<Protocol.SearchResults, string>;
+  if (db === undefined) {
+    result = Result.error("The database is not loaded yet");
+  } else {
+    try {
+      const pipeline = await getPipeline();
+      const searchResult = await ChunkDB.search(
+        db,
+        pipeline,
+        request.query,
+        request.options,
+      );
+
+      if (Result.isError(searchResult)) {
+        result = searchResult;
+      } else {
+        result = Result.ok({
+          chunks: searchResult.value,
+          matchCount: ChunkDB.countMatches(db, request.options.filter),
+        });
+      }
+    } catch (error) {
+      result = Result.error(`Search failed: ${error}`);
+    }
+  }
+
+  runningSearches.delete(request.id);
+
+  if (cancelledSearches.delete(request.id)) {
+    post({ type: "searchCancelled", id: request.id });
+  } else {
+    post({ type: "searchDone", id: request.id, result });
+  }
+}
@@ -0,0 +1,53 @@
+import { expect, describe, test } from "vitest";
+import * as Bm25 from "../scripts/lib/bm25";
+
+describe("BM25 index", () => {
+  test("identifiers are split on punctuation but not underscores", () => {
+    expect(Bm25.tokenize("Use os.path.join() or my_helper!")).toEqual([
+      "use",
+      "os",
+      "path",
+      "join",
+      "or",
+      "my_helper",
+    ]);
+  });
+
+  test("documents with rare query terms score higher", () => {
+    const index = Bm25.createIndex([
+      "Loop over a list with a for loop.",
+      "Use enumerate to loop over a list with the index.",
+      "A defaultdict gives missing keys a default value.",
+    ]);
+
+    const scores = Bm25.scoreQuery(index, "enumerate loop");
+
+    expect(scores[1]).toBeGreaterThan(scores[0]!);
+    expect(scores[2]).toEqual(0);
+  });
+
+  test("terms that are object properties are not special", () => {
+    const index = Bm25.createIndex(["the constructor of a class"]);
+
+    expect(Bm25.scoreQuery(index, "toString")[0]).toEqual(0);
+    expect(Bm25.scoreQuery(index, "constructor")[0]).toBeGreaterThan(0);
+  });
+
+  test("indexes the term __proto__ like any other", () => {
+    const index = Bm25.createIndex(["the __proto__ property", "no match"]);
+
+    expect(index.postings.has("__proto__")).toBe(true);
+    expect(Bm25.scoreQuery(index, "__proto__")[0]).toBeGreaterThan(0);
+    expect(Bm25.scoreQuery(index, "__proto__")[1]).toEqual(0);
+  });
+
+  test("keeps the term __proto__ through serialization", () => {
+    const index = Bm25.createIndex(["the __proto__ property", "no match"]);
+    const json = JSON.stringify(Bm25.serializeIndex(index));
+    const parsed = Bm25.SerializedIndexSchema.parse(JSON.parse(json));
+
+    expect(
+      Bm25.scoreQuery(Bm25.indexFromSerialized(parsed), "__proto__")[0],
+    ).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,242 @@
+import { expect, describe, test } from "vitest";
+import * as Bm25 from "../scripts/lib/bm25";
+import * as ChunkDb from "../scripts/lib/chunk-database";
+import * as Constant from "../shared/constants";
+import * as Result from "../shared/result";
+import type * as Search from "../shared/search";
+
+function unversionedDatabase() {
+  return {
+    chunks: [
+      {
+        headingPath: ["Lists"],
+        totalTokens: 3,
+        rawText: "Lists are mutable.",
+        markdownText: "Lists are mutable.",
+        work: "The Python Tutorial",
+        title: "Data Structures",
+        id: "0b8e0f2e-8d39-4b4e-9a53-3d7f4a0f6a61",
+      },
+    ],
+    embeddings: {
+      dataType: "float32",
+      data: [0.6, 0.8],
+      dimensions: [1, 2],
+    },
+    metadata: {
+      embeddingModel: "Xenova/all-MiniLM-L6-v2",
+      dimension: 2,
+      createdAt: "2026-01-01T00:00:00.000Z",
+    },
+  };
+}
+
+describe("chunk database format versions", () => {
+  test("unversioned databases are migrated to the current version", () => {
+    const result = ChunkDb.deserializeChunkDatabase(unversionedDatabase());
+
+    if (Result.isError(result)) {
+      throw new Error(`Failed to deserialize database: ${result.error}`);
+    }
+
+    expect(result.value.formatVersion).toEqual(0);
+    expect(result.value.chunks.length).toEqual(1);
+  });
+
+  test("migrated chunks with fenced code are marked as code", () => {
+    const unversioned = unversionedDatabase();
+    const codeChunk = {
+      ...unversioned.chunks[0]!,
+      markdownText: "Make a list:\n\n```python\nxs = [1, 2]\n```",
+    };
+    const result = ChunkDb.deserializeChunkDatabase({
+      ...unversioned,
+      chunks: [...unversioned.chunks, codeChunk],
+      embeddings: {
+        ...unversioned.embeddings,
+        data: [0.6, 0.8, 0.8, 0.6],
+        dimensions: [2, 2],
+      },
+    });
+
+    if (Result.isError(result)) {
+      throw new Error(`Failed to deserialize database: ${result.error}`);
+    }
+
+    expect(result.value.chunks.map((chunk) => chunk.blockTypes)).toEqual([
+      [],
+      ["code"],
+    ]);
+  });
+
+  test("migrated lexical indexes keep the term __proto__", () => {
+    const unversioned = unversionedDatabase();
+    const chunk = { ...unversioned.chunks[0]!, rawText: "the __proto__ key" };
+    const json = JSON.stringify({ ...unversioned, chunks: [chunk] });
+    const result = ChunkDb.deserializeChunkDatabase(JSON.parse(json));
+
+    if (Result.isError(result)) {
+      throw new Error(`Failed to deserialize database: ${result.error}`);
+    }
+
+    const scores = Bm25.scoreQuery(result.value.lexicalIndex, "__proto__");
+    expect(scores[0]).toBeGreaterThan(0);
+  });
+
+  test("serialized databases record the current version", () => {
+    const db = ChunkDb.deserializeChunkDatabase(unversionedDatabase());
+
+    if (Result.isError(db)) {
+      throw new Error(`Failed to deserialize database: ${db.error}`);
+    }
+
+    const serialized = ChunkDb.serializeChunkDatabase(db.value);
+
+    if (Result.isError(serialized)) {
+      throw new Error(`Failed to serialize database: ${serialized.error}`);
+    }
+
+    const json = JSON.parse(serialized.value);
+    expect(json.formatVersion).toEqual(Constant.CHUNK_DATABASE_FORMAT_VERSION);
+  });
+
+  test("databases newer than the app are rejected", () => {
+    const result = ChunkDb.deserializeChunkDatabase({
+      ...unversionedDatabase(),
+      formatVersion: Constant.CHUNK_DATABASE_FORMAT_VERSION + 1,
+    });
+
+    if (Result.isOk(result)) {
+      throw new Error("Expected deserializing to fail");
+    }
+
+    expect(result.error).toContain("newer");
+  });
+});
+
+describe("checking database compatibility", () => {
+  test("databases from the same pipeline are compatible", () => {
+    const db = ChunkDb.deserializeChunkDatabase({
+      ...unversionedDatabase(),
+      embeddings: {
+        dataType: "float32",
+        data: Array(384).fill(0),
+        dimensions: [1, 384],
+      },
+      metadata: { ...unversionedDatabase().metadata, dimension: 384 },
+    });
+
+    if (Result.isError(db)) {
+      throw new Error(`Failed to deserialize database: ${db.error}`);
+    }
+
+    expect(Result.isOk(ChunkDb.checkCompatibility(db.value))).toBe(true);
+  });
+
+  test("databases with another dimension or model are not compatible", () => {
+    const db = ChunkDb.deserializeChunkDatabase({
+      ...unversionedDatabase(),
+      metadata: {
+        ...unversionedDatabase().metadata,
+        embeddingModel: "some/other-model",
+      },
+    });
+
+    if (Result.isError(db)) {
+      throw new Error(`Failed to deserialize database: ${db.error}`);
+    }
+
+    const result = ChunkDb.checkCompatibility(db.value);
+
+    if (Result.isOk(result)) {
+      throw new Error("Expected the compatibility check to fail");
+    }
+
+    expect(result.error).toContain("some/other-model");
+    expect(result.error).toContain("dimension 2");
+  });
+});
+
+describe("searching with a filter", () => {
+  function chunk(work: string, headingPath: string[], rawText: string) {
+    return {
+      headingPath,
+      totalTokens: 5,
+      rawText,
+      markdownText: rawText,
+      work,
+      title: "Data Structures",
+      id: `${work}:${headingPath.join("/")}`,
+    };
+  }
+
+  const result = ChunkDb.deserializeChunkDatabase({
+    ...unversionedDatabase(),
+    chunks: [
+      chunk("The Python Tutorial", ["Lists"], "Lists are mutable."),
+      chunk("The Python Tutorial", ["Lists", "Copies"], "Copy lists."),
+      chunk("The Python Tutorial", ["Tuples"], "Tuples are not lists."),
+      chunk("Applied Python Programming", ["Lists"], "More about lists."),
+    ],
+    embeddings: {
+      dataType: "float32",
+      data: [1, 0, 1, 0, 0.6, 0.8, 0.8, 0.6],
+      dimensions: [4, 2],
+    },
+  });
+
+  if (Result.isError(result)) {
+    throw new Error(`Failed to deserialize database: ${result.error}`);
+  }
+
+  const db = result.value;
+
+  // Lexical searches, and searches with nothing to score, never embed the
+  // query, so they don't need the model.
+  const noPipeline = undefined;
+
+  async function searchIds(filter: Search.SearchFilter) {
+    const searchResult = await ChunkDb.search(db, noPipeline, "lists", {
+      mode: "lexical",
+      cutoff: { type: "topK", k: 10 },
+      filter,
+    });
+
+    if (Result.isError(searchResult)) {
+      throw new Error(`Search failed: ${searchResult.error}`);
+    }
+
+    return searchResult.value.map((found) => found.chunk.id).toSorted();
+  }
+
+  test("only finds chunks from the given works", async () => {
+    expect(await searchIds({ works: ["Applied Python Programming"] })).toEqual([
+      "Applied Python Programming:Lists",
+    ]);
+  });
+
+  test("only finds chunks under the given headings", async () => {
+    expect(await searchIds({ headingPathPrefix: ["Lists"] })).toEqual([
+      "Applied Python Programming:Lists",
+      "The Python Tutorial:Lists",
+      "The Python Tutorial:Lists/Copies",
+    ]);
+  });
+
+  test("finds nothing without embedding the query when nothing matches", async () => {
+    const searchResult = await ChunkDb.search(db, noPipeline, "lists", {
+      mode: "semantic",
+      filter: { works: [] },
+    });
+
+    expect(searchResult).toEqual(Result.ok([]));
+  });
+
+  test("needs the model for semantic searches", async () => {
+    const searchResult = await ChunkDb.search(db, noPipeline, "lists", {
+      mode: "semantic",
+    });
+
+    expect(Result.isError(searchResult)).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+import { expect, describe, test } from "vitest";
+import * as ChunkingProfile from "../scripts/lib/chunking-profile";
+import { MAX_TOKENS, TEXT_MAX_TOKENS } from "../shared/constants";
+
+describe("chunking profiles", () => {
+  test("plain text gets the bigger default size", () => {
+    expect(ChunkingProfile.defaultProfile("markdown").maxTokens).toEqual(
+      MAX_TOKENS,
+    );
+    expect(ChunkingProfile.defaultProfile("text").maxTokens).toEqual(
+      TEXT_MAX_TOKENS,
+    );
+  });
+
+  test("later settings take precedence", () => {
+    const profile = ChunkingProfile.resolve(
+      ChunkingProfile.DEFAULT_CHUNKING_PROFILE,
+      { overlapTokens: 60, breadcrumbs: false },
+      undefined,
+      { overlapTokens: 0 },
+    );
+
+    expect(profile).toEqual({
+      ...ChunkingProfile.DEFAULT_CHUNKING_PROFILE,
+      overlapTokens: 0,
+      breadcrumbs: false,
+    });
+  });
+
+  test("partial profiles are parsed from the config", () => {
+    const result = ChunkingProfile.PartialChunkingProfileSchema.safeParse({
+      codeSplitting: "lines",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ codeSplitting: "lines" });
+    expect(
+      ChunkingProfile.PartialChunkingProfileSchema.safeParse({
+        codeSplitting: "sometimes",
+      }).success,
+    ).toBe(false);
+  });
+});
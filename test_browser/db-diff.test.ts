@@ -0,0 +1,53 @@
+import { expect, describe, test } from "vitest";
+import * as DbDiff from "../scripts/lib/db-diff";
+import type { FinalizedChunk } from "../scripts/lib/finalized-chunk";
+
+function chunk(headingPath: string[], rawText: string): FinalizedChunk {
+  return {
+    headingPath,
+    totalTokens: 1,
+    rawText,
+    markdownText: rawText,
+    work: "The Python Tutorial",
+    title: "Data Structures",
+    id: `${headingPath.join("/")}:${rawText}`,
+    blockTypes: [],
+  };
+}
+
+describe("diffing chunk databases", () => {
+  const lists = chunk(["Lists"], "Lists are mutable.");
+  const oldTuples = chunk(["Tuples"], "Tuples are immutable.");
+  const newTuples = chunk(["Tuples"], "Tuples can't be changed.");
+  const sets = chunk(["Sets"], "Sets are unordered.");
+  const dicts = chunk(["Dictionaries"], "Dictionaries map keys.");
+
+  const matching = DbDiff.diffChunks(
+    [lists, oldTuples, sets],
+    [dicts, newTuples, lists],
+  );
+
+  test("chunks are matched by id, then by heading path", () => {
+    const { unchanged, added, removed, modified } = matching.diff;
+
+    expect(unchanged).toEqual(1);
+    expect(added.map((ref) => ref.headingPath)).toEqual([["Dictionaries"]]);
+    expect(removed.map((ref) => ref.headingPath)).toEqual([["Sets"]]);
+    expect(modified.map((change) => change.after.id)).toEqual([newTuples.id]);
+  });
+
+  test("result movement follows matched chunks", () => {
+    const movement = DbDiff.compareResults(
+      "immutable sequences",
+      [oldTuples, sets],
+      [dicts, newTuples],
+      matching,
+    );
+
+    expect(movement.results.map((result) => result.previousRank)).toEqual([
+      null,
+      1,
+    ]);
+    expect(movement.dropped.map((result) => result.rank)).toEqual([2]);
+  });
+});
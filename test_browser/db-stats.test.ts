@@ -0,0 +1,73 @@
+import { expect, describe, test } from "vitest";
+import * as ChunkDb from "../scripts/lib/chunk-database";
+import * as DbStats from "../scripts/lib/db-stats";
+import * as Result from "../shared/result";
+
+function chunk(headingPath: string[], rawText: string, totalTokens: number) {
+  return {
+    headingPath,
+    totalTokens,
+    rawText,
+    markdownText: rawText,
+    work: "The Python Tutorial",
+    title: "Data Structures",
+    id: `${headingPath.join("/")}:${rawText}`,
+  };
+}
+
+function database() {
+  const result = ChunkDb.deserializeChunkDatabase({
+    chunks: [
+      chunk(["Lists"], "Lists are mutable sequences.", 5),
+      chunk(["Lists", "Copies"], "Lists are mutable sequences.", 5),
+      chunk([], "Tuples are immutable sequences. ".repeat(10), 300),
+      chunk(["Sets"], "Sets are unordered.", 4),
+    ],
+    embeddings: {
+      dataType: "float32",
+      data: [1, 0, 1, 0, 0.6, 0.8, 0.62, 0.78],
+      dimensions: [4, 2],
+    },
+    metadata: {
+      embeddingModel: "Xenova/all-MiniLM-L6-v2",
+      dimension: 2,
+      createdAt: "2026-01-01T00:00:00.000Z",
+    },
+  });
+
+  if (Result.isError(result)) {
+    throw new Error(`Failed to deserialize database: ${result.error}`);
+  }
+
+  return result.value;
+}
+
+describe("database stats", () => {
+  const result = DbStats.computeStats(database(), {
+    bucketSize: 100,
+    nearDuplicateThreshold: 0.99,
+  });
+
+  if (Result.isError(result)) {
+    throw new Error(`Failed to compute stats: ${result.error}`);
+  }
+
+  const stats = result.value;
+
+  test("token lengths are bucketed", () => {
+    expect(stats.tokens.histogram.map((bucket) => bucket.count)).toEqual([
+      3, 0, 0, 1,
+    ]);
+    expect(stats.tokens.overModelMaxTokens).toEqual(1);
+  });
+
+  test("problem chunks are flagged", () => {
+    expect(stats.emptyHeadingPath.length).toEqual(1);
+    expect(stats.exactDuplicates.length).toEqual(1);
+    expect(stats.exactDuplicates[0]!.length).toEqual(2);
+    // The exact duplicates are also identical embeddings, but they are only
+    // listed once.
+    expect(stats.nearDuplicates.length).toEqual(1);
+    expect(stats.nearDuplicates[0]!.a.headingPath).toEqual([]);
+  });
+});
@@ -33,3 +33,103 @@ describe("serializing tensors", () => {
     expectTensorEqual(deserialized.value, tensor);
   });
 });
+
+describe("binary tensor container", () => {
+  test("roundtrips of float32 encoding are exact", () => {
+    const tensor = new Transformers.Tensor(
+      "float32",
+      [0.1, -0.2, 0.3, 1e-8, 5, -6],
+      [2, 3],
+    );
+
+    const encoded = Embedding.encodeTensorBinary(tensor, "float32");
+
+    if (Result.isError(encoded)) {
+      throw new Error(`Failed to encode tensor: ${encoded.error}`);
+    }
+
+    const decoded = Embedding.decodeTensorBinary(encoded.value);
+
+    if (Result.isError(decoded)) {
+      throw new Error(`Failed to decode tensor: ${decoded.error}`);
+    }
+
+    expectTensorEqual(decoded.value, tensor);
+  });
+
+  test("roundtrips of int8 encoding are close", () => {
+    const values = [0.1, -0.2, 0.3, 0, 0, 0, 0.5, 0.25, -0.125];
+    const tensor = new Transformers.Tensor("float32", values, [3, 3]);
+
+    const encoded = Embedding.encodeTensorBinary(tensor, "int8");
+
+    if (Result.isError(encoded)) {
+      throw new Error(`Failed to encode tensor: ${encoded.error}`);
+    }
+
+    // Header, one scale per row, one byte per value
+    expect(encoded.value.byteLength).toEqual(16 + 3 * 4 + 9);
+
+    const decoded = Embedding.decodeTensorBinary(encoded.value);
+
+    if (Result.isError(decoded)) {
+      throw new Error(`Failed to decode tensor: ${decoded.error}`);
+    }
+
+    expect(decoded.value.dims).toEqual(tensor.dims);
+    Array.from(decoded.value.data as Float32Array).forEach((value, i) => {
+      expect(value).toBeCloseTo(values[i]!, 2);
+    });
+  });
+
+  test("decoding rejects truncated data", () => {
+    const tensor = new Transformers.Tensor("float32", [1, 2, 3, 4], [2, 2]);
+
+    const encoded = Embedding.encodeTensorBinary(tensor, "float32");
+
+    if (Result.isError(encoded)) {
+      throw new Error(`Failed to encode tensor: ${encoded.error}`);
+    }
+
+    const decoded = Embedding.decodeTensorBinary(encoded.value.slice(0, 20));
+
+    expect(Result.isError(decoded)).toBe(true);
+  });
+});
+
+describe("result cutoffs", () => {
+  const scores = [0.2, 0.9, 0.5, 0.85, 0.1];
+
+  test("simple cutoffs keep the best results in order", () => {
+    expect(Embedding.findBestResults(scores, { type: "topK", k: 2 })).toEqual([
+      1, 3,
+    ]);
+    expect(
+      Embedding.findBestResults(scores, { type: "minScore", score: 0.5 }),
+    ).toEqual([1, 3, 2]);
+    expect(
+      Embedding.findBestResults(scores, {
+        type: "relativeToBest",
+        fraction: 0.9,
+      }),
+    ).toEqual([1, 3]);
+  });
+
+  test("combined cutoffs take the strictest or most lenient", () => {
+    const topOne = { type: "topK", k: 1 } as const;
+    const aboveHalf = { type: "minScore", score: 0.5 } as const;
+
+    expect(
+      Embedding.findBestResults(scores, {
+        type: "all",
+        cutoffs: [topOne, aboveHalf],
+      }),
+    ).toEqual([1]);
+    expect(
+      Embedding.findBestResults(scores, {
+        type: "any",
+        cutoffs: [topOne, aboveHalf],
+      }),
+    ).toEqual([1, 3, 2]);
+  });
+});
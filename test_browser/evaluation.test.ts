@@ -0,0 +1,49 @@
+import { expect, describe, test } from "vitest";
+import * as Evaluation from "../scripts/lib/evaluation";
+import type { FinalizedChunk } from "../scripts/lib/finalized-chunk";
+
+function chunk(headingPath: string[], rawText: string): FinalizedChunk {
+  return {
+    headingPath,
+    totalTokens: 1,
+    rawText,
+    markdownText: rawText,
+    work: "The Python Tutorial",
+    title: "Data Structures",
+    id: rawText,
+    blockTypes: [],
+  };
+}
+
+describe("retrieval metrics", () => {
+  const results = [
+    chunk(["Data Structures", "Sets"], "Sets have no duplicates."),
+    chunk(["Data Structures", "Tuples"], "Tuples are immutable."),
+    chunk(["Data Structures", "Tuples"], "Tuples can be unpacked."),
+    chunk(["Data Structures", "Lists"], "Lists are mutable."),
+  ];
+
+  test("relevant results are scored by rank", () => {
+    const metrics = Evaluation.scoreRanking(
+      results,
+      [{ headingPath: ["Data Structures", "Tuples"] }, { text: "Lists are" }],
+      [1, 2, 4],
+      4,
+    );
+
+    expect(metrics.recall).toEqual({ 1: 0, 2: 0.5, 4: 1 });
+    expect(metrics.reciprocalRank).toEqual(0.5);
+  });
+
+  test("finding the same expected chunk twice only counts once", () => {
+    const metrics = Evaluation.scoreRanking(
+      results,
+      [{ headingPath: ["Data Structures", "Tuples"] }],
+      [4],
+      4,
+    );
+
+    // The one relevant result is at rank 2, and rank 3 doesn't add anything.
+    expect(metrics.ndcg).toBeCloseTo(1 / Math.log2(3));
+  });
+});
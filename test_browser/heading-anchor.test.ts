@@ -0,0 +1,45 @@
+import { expect, describe, test } from "vitest";
+import * as HeadingAnchor from "../scripts/lib/heading-anchor";
+
+describe("heading anchors", () => {
+  test("explicit ids are split off of the heading text", () => {
+    expect(
+      HeadingAnchor.parseHeadingText("Apple Pie {#sec-apple-pie .unnumbered}"),
+    ).toEqual({ text: "Apple Pie", explicitId: "sec-apple-pie" });
+
+    expect(HeadingAnchor.parseHeadingText("Dictionaries {}")).toEqual({
+      text: "Dictionaries {}",
+      explicitId: undefined,
+    });
+  });
+
+  test("slugs follow the pandoc rules", () => {
+    expect(HeadingAnchor.slugify("Lists, Tuples & Sets")).toEqual(
+      "lists-tuples-sets",
+    );
+    expect(HeadingAnchor.slugify("3.1 Using os.path")).toEqual("using-os.path");
+    expect(HeadingAnchor.slugify("!!!")).toEqual("section");
+  });
+
+  test("repeated headings get numbered anchors", () => {
+    const makeAnchor = HeadingAnchor.createAnchorMaker();
+    const heading = HeadingAnchor.parseHeadingText("Exercises");
+
+    expect(makeAnchor(heading)).toEqual("exercises");
+    expect(makeAnchor(heading)).toEqual("exercises-1");
+    expect(makeAnchor(heading)).toEqual("exercises-2");
+  });
+
+  test("docutils ids drop punctuation and number repeats globally", () => {
+    expect(HeadingAnchor.docutilsId("3.1 Using os.path")).toEqual(
+      "using-os-path",
+    );
+
+    const makeAnchor = HeadingAnchor.createDocutilsAnchorMaker();
+    const heading = HeadingAnchor.parseHeadingText("Exercises");
+
+    expect(makeAnchor(heading)).toEqual("exercises");
+    expect(makeAnchor(heading)).toEqual("id1");
+    expect(makeAnchor(heading)).toEqual("id2");
+  });
+});
@@ -0,0 +1,122 @@
+import type { Table } from "mdast";
+import { expect, describe, test } from "vitest";
+import { parseHtml } from "../scripts/lib/html";
+
+const quartoPage = `
+<html>
+<body>
+<nav id="TOC"><h2>On this page</h2></nav>
+<main class="content" id="quarto-document-content">
+<section id="sec-lists" class="level2">
+<h2 class="anchored" data-anchor-id="sec-lists">Lists<a class="anchorjs-link" href="#sec-lists"></a></h2>
+<p>Lists are <em>mutable</em>, see <code>len</code>.</p>
+<div class="sourceCode"><pre class="sourceCode python"><code class="sourceCode python">xs = [1, 2]
+</code></pre></div>
+<div class="callout callout-style-default callout-tip callout-titled">
+<div class="callout-header"><div class="callout-title-container">Slicing</div></div>
+<div class="callout-body-container callout-body"><p>Slices are copies.</p></div>
+</div>
+<ul>
+<li>first</li>
+<li><p>second</p></li>
+</ul>
+<table>
+<caption>Mutability of the built-in types</caption>
+<thead><tr><th>Type</th><th>Mutable</th></tr></thead>
+<tbody><tr><td>list</td><td>yes</td></tr></tbody>
+</table>
+</section>
+</main>
+</body>
+</html>
+`;
+
+describe("parsing HTML", () => {
+  test("only the main content is kept", () => {
+    const tree = parseHtml(quartoPage);
+
+    expect(tree.children.map((node) => node.type)).toEqual([
+      "heading",
+      "paragraph",
+      "code",
+      "blockquote",
+      "list",
+      "paragraph",
+      "table",
+    ]);
+  });
+
+  test("headings keep the id of their section", () => {
+    const tree = parseHtml(quartoPage);
+
+    expect(tree.children[0]).toEqual({
+      type: "heading",
+      depth: 2,
+      children: [{ type: "text", value: "Lists" }],
+      data: { id: "sec-lists" },
+    });
+  });
+
+  test("elements map onto markdown nodes", () => {
+    const tree = parseHtml(quartoPage);
+
+    expect(tree.children[1]).toEqual({
+      type: "paragraph",
+      children: [
+        { type: "text", value: "Lists are " },
+        { type: "emphasis", children: [{ type: "text", value: "mutable" }] },
+        { type: "text", value: ", see " },
+        { type: "inlineCode", value: "len" },
+        { type: "text", value: "." },
+      ],
+    });
+
+    expect(tree.children[2]).toEqual({
+      type: "code",
+      lang: "python",
+      value: "xs = [1, 2]",
+    });
+
+    expect(tree.children[3]).toEqual({
+      type: "blockquote",
+      children: [
+        {
+          type: "paragraph",
+          children: [
+            { type: "strong", children: [{ type: "text", value: "Slicing" }] },
+          ],
+        },
+        {
+          type: "paragraph",
+          children: [{ type: "text", value: "Slices are copies." }],
+        },
+      ],
+      data: { callout: "callout-tip" },
+    });
+  });
+
+  test("tables without a header get an empty one", () => {
+    const tree = parseHtml(
+      "<main><table><tr><td>list</td><td>yes</td></tr><tr><td>tuple</td><td>no</td></tr></table></main>",
+    );
+    const table = tree.children[0] as Table;
+
+    expect(table.children.map((row) => row.children.length)).toEqual([2, 2, 2]);
+    expect(table.children[0]!.children.map((cell) => cell.children)).toEqual([
+      [],
+      [],
+    ]);
+    expect(table.children[1]!.children[0]!.children).toEqual([
+      { type: "text", value: "list" },
+    ]);
+  });
+
+  test("rows of th cells are headers", () => {
+    const tree = parseHtml(
+      "<main><table><tr><th>Type</th></tr><tr><td>list</td></tr></table></main>",
+    );
+    const table = tree.children[0] as Table;
+
+    expect(table.children).toHaveLength(2);
+  });
+});
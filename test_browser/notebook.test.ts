@@ -0,0 +1,54 @@
+import { expect, describe, test } from "vitest";
+import { parseNotebook } from "../scripts/lib/notebook";
+import * as Result from "../shared/result";
+
+const notebook = {
+  cells: [
+    {
+      cell_type: "markdown",
+      source: ["# Lists\n", "\n", "Lists are mutable."],
+    },
+    { cell_type: "raw", source: "skipped" },
+    {
+      cell_type: "code",
+      source: "xs = [1, 2]\nprint(xs)",
+      outputs: [
+        { output_type: "stream", name: "stdout", text: ["[1, 2]\n"] },
+        { output_type: "error", ename: "Oops", evalue: "", traceback: [] },
+      ],
+    },
+  ],
+  metadata: { kernelspec: { language: "python", name: "python3" } },
+  nbformat: 4,
+  nbformat_minor: 5,
+};
+
+describe("parsing notebooks", () => {
+  test("cells keep their index in the notebook", () => {
+    const result = parseNotebook(notebook, false);
+
+    if (Result.isError(result)) {
+      throw new Error(`Failed to parse notebook: ${result.error}`);
+    }
+
+    expect(result.value.language).toEqual("python");
+    expect(result.value.parts).toEqual([
+      { type: "markdown", cellIndex: 0, text: "# Lists\n\nLists are mutable." },
+      { type: "code", cellIndex: 2, text: "xs = [1, 2]\nprint(xs)" },
+    ]);
+  });
+
+  test("text outputs are kept when asked for", () => {
+    const result = parseNotebook(notebook, true);
+
+    if (Result.isError(result)) {
+      throw new Error(`Failed to parse notebook: ${result.error}`);
+    }
+
+    expect(result.value.parts.at(-1)).toEqual({
+      type: "output",
+      cellIndex: 2,
+      text: "[1, 2]\n",
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { expect, describe, test } from "vitest";
+import { parsePythonSource } from "../scripts/lib/python-source";
+
+const source = `"""Helpers for FASTA files."""
+
+import re
+
+HEADER = re.compile(r">(\\S+)")
+
+
+class Record:
+    """One sequence."""
+
+    def __init__(self, name, sequence):
+        self.name = name
+        self.sequence = sequence
+
+
+@cache
+def parse_records(
+    text: str,
+) -> list[Record]:
+    """Parse all the records.
+
+    # Not a comment
+    """
+    def clean(line):
+        return line.strip()
+
+    return [Record(*clean(line).split()) for line in text.split("\\n")]
+`;
+
+describe("parsing Python source", () => {
+  test("classes and functions become headings under the module", () => {
+    const tree = parsePythonSource(source, "utils.fasta");
+    const headings = tree.children.flatMap((node) =>
+      node.type === "heading"
+        ? [
+            [
+              node.depth,
+              node.children
+                .map((child) => child.type === "text" && child.value)
+                .join(""),
+            ],
+          ]
+        : [],
+    );
+
+    expect(headings).toEqual([
+      [1, "utils"],
+      [2, "fasta"],
+      [3, "Record"],
+      [4, "__init__"],
+      [3, "parse_records"],
+    ]);
+  });
+
+  test("signatures and docstrings stay together, apart from the body", () => {
+    const tree = parsePythonSource(source, "fasta");
+    const code = tree.children.flatMap((node) =>
+      node.type === "code" ? [node.value] : [],
+    );
+
+    expect(code).toEqual([
+      '"""Helpers for FASTA files."""',
+      'import re\n\nHEADER = re.compile(r">(\\S+)")',
+      'class Record:\n    """One sequence."""',
+      "def __init__(self, name, sequence):",
+      "self.name = name\nself.sequence = sequence",
+      '@cache\ndef parse_records(\n    text: str,\n) -> list[Record]:\n    """Parse all the records.\n\n    # Not a comment\n    """',
+      'def clean(line):\n    return line.strip()\n\nreturn [Record(*clean(line).split()) for line in text.split("\\n")]',
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import type { Root } from "mdast";
+import remarkDirective from "remark-directive";
+import remarkFrontmatter from "remark-frontmatter";
+import remarkParse from "remark-parse";
+import { unified } from "unified";
+import { expect, describe, test } from "vitest";
+import * as Quarto from "../scripts/lib/quarto";
+
+const processor = unified()
+  .use(remarkParse)
+  .use(remarkDirective)
+  .use(remarkFrontmatter);
+
+async function parse(markdown: string): Promise<Root> {
+  const tree = processor.parse(Quarto.fencedDivsToDirectives(markdown));
+  return Quarto.resolveQuarto((await processor.run(tree)) as Root);
+}
+
+const chapter = `---
+title: "Lists & Tuples"
+---
+
+## Basics {#sec-basics}
+
+See @sec-basics and [@fig-plot].
+
+:::: {.column-margin}
+::: {.callout-tip}
+## Slicing
+
+Slices are copies.
+:::
+::::
+
+\`\`\`{python}
+#| label: fig-plot
+#| fig-cap: "A plot"
+plot(xs)
+\`\`\`
+`;
+
+describe("Quarto markdown", () => {
+  test("nested fenced divs become container directives", () => {
+    expect(
+      Quarto.fencedDivsToDirectives(
+        ":::: {.column-margin}\n::: {.callout-tip}\nHi\n:::\n::::",
+      ),
+    ).toEqual(
+      "::::column-margin{.column-margin}\n:::callout-tip{.callout-tip}\nHi\n:::\n::::",
+    );
+  });
+
+  test("callouts become block quotes with their title", async () => {
+    const tree = await parse(chapter);
+
+    expect(tree.children[3]).toEqual({
+      type: "blockquote",
+      children: [
+        {
+          type: "paragraph",
+          children: [
+            { type: "strong", children: [{ type: "text", value: "Slicing" }] },
+          ],
+        },
+        expect.objectContaining({ type: "paragraph" }),
+      ],
+      data: { callout: "callout-tip" },
+      // The position of the whole div
+      position: {
+        start: expect.objectContaining({ line: 10, column: 1 }),
+        end: expect.objectContaining({ line: 14 }),
+      },
+    });
+  });
+
+  test("headings lose their attributes but keep the id", async () => {
+    const tree = await parse(chapter);
+
+    expect(tree.children[1]).toMatchObject({
+      type: "heading",
+      children: [{ type: "text", value: "Basics" }],
+      data: { id: "sec-basics" },
+    });
+  });
+
+  test("cross-references are replaced by readable labels", async () => {
+    const tree = await parse(chapter);
+
+    expect(tree.children[2]).toMatchObject({
+      type: "paragraph",
+      children: [
+        {
+          type: "text",
+          value: 'See Section "Basics" and Figure "A plot".',
+        },
+      ],
+    });
+  });
+
+  test("cell options are removed from code cells", async () => {
+    const tree = await parse(chapter);
+
+    expect(tree.children[4]).toMatchObject({
+      type: "code",
+      lang: "python",
+      value: "plot(xs)",
+    });
+  });
+
+  test("the front matter title is used", async () => {
+    expect(Quarto.frontmatterTitle(await parse(chapter))).toEqual(
+      "Lists & Tuples",
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { toString } from "mdast-util-to-string";
+import { expect, describe, test } from "vitest";
+import { parseRst } from "../scripts/lib/rst";
+
+const tutorial = `
+.. _tut-lists:
+
+*****
+Lists
+*****
+
+Lists are *mutable*, see :func:\`len\` and :ref:\`tut-tuples\`.
+
+Slicing
+=======
+
+For example::
+
+   >>> xs[1:]
+   [2, 3]
+
+.. note::
+
+   Slices are copies.
+
+* first
+* second
+
+******
+Tuples
+******
+
+Done.
+`;
+
+describe("parsing reStructuredText", () => {
+  test("sections become headings in order of their adornment", () => {
+    const tree = parseRst(tutorial);
+    const headings = tree.children
+      .filter((node) => node.type === "heading")
+      .map((node) => node.depth);
+
+    expect(headings).toEqual([1, 2, 1]);
+  });
+
+  test("blocks map onto markdown nodes", () => {
+    const tree = parseRst(tutorial);
+
+    expect(tree.children.map((node) => node.type)).toEqual([
+      "heading",
+      "paragraph",
+      "heading",
+      "paragraph",
+      "code",
+      "blockquote",
+      "list",
+      "heading",
+      "paragraph",
+    ]);
+
+    expect(tree.children[1]).toEqual({
+      type: "paragraph",
+      children: [
+        { type: "text", value: "Lists are " },
+        { type: "emphasis", children: [{ type: "text", value: "mutable" }] },
+        { type: "text", value: ", see " },
+        { type: "inlineCode", value: "len()" },
+        { type: "text", value: " and " },
+        { type: "text", value: "tut-tuples" },
+        { type: "text", value: "." },
+      ],
+    });
+
+    expect(tree.children[4]).toEqual({
+      type: "code",
+      lang: "python",
+      value: ">>> xs[1:]\n[2, 3]",
+    });
+  });
+
+  test("admonitions become block quotes with a title", () => {
+    const tree = parseRst(".. warning:: Careful.\n\n   More text.\n");
+
+    expect(tree.children).toEqual([
+      {
+        type: "blockquote",
+        children: [
+          {
+            type: "paragraph",
+            children: [
+              {
+                type: "strong",
+                children: [{ type: "text", value: "Warning" }],
+              },
+            ],
+          },
+          {
+            type: "paragraph",
+            children: [{ type: "text", value: "Careful." }],
+          },
+          {
+            type: "paragraph",
+            children: [{ type: "text", value: "More text." }],
+          },
+        ],
+      },
+    ]);
+  });
+
+  test("directive content can start with a role", () => {
+    const tree = parseRst(
+      ".. seealso::\n\n   :pep:`8` - Style Guide for Python Code\n      How to write it.\n",
+    );
+
+    expect(toString(tree)).toEqual(
+      "See alsoPEP 8 - Style Guide for Python CodeHow to write it.",
+    );
+  });
+
+  test("directive options are not content", () => {
+    const tree = parseRst(
+      ".. code-block:: python\n   :linenos:\n   :caption: Example\n\n   x = 1\n",
+    );
+
+    expect(tree.children).toEqual([
+      { type: "code", lang: "python", value: "x = 1" },
+    ]);
+  });
+});
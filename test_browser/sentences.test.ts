@@ -0,0 +1,84 @@
+import type { Paragraph } from "mdast";
+import { toString } from "mdast-util-to-string";
+import { expect, describe, test } from "vitest";
+import {
+  joinSentences,
+  splitSentences,
+  splitTextSentences,
+} from "../scripts/lib/sentences";
+
+function text(value: string): Paragraph {
+  return { type: "paragraph", children: [{ type: "text", value }] };
+}
+
+describe("splitting sentences", () => {
+  test("abbreviations, initials, and dotted names don't end sentences", () => {
+    const sentences = splitSentences(
+      text(
+        "Mr. Rodgers uses os.path.join, e.g. for paths. J. Smith needs Python 3.12 or later! Does it work? Yes.",
+      ),
+    );
+
+    expect(sentences.map((sentence) => toString(sentence))).toEqual([
+      "Mr. Rodgers uses os.path.join, e.g. for paths.",
+      "J. Smith needs Python 3.12 or later!",
+      "Does it work?",
+      "Yes.",
+    ]);
+  });
+
+  test("inline markup is kept and never split", () => {
+    const paragraph: Paragraph = {
+      type: "paragraph",
+      children: [
+        { type: "text", value: "Call " },
+        { type: "inlineCode", value: "xs.sort(). Then" },
+        { type: "text", value: " it's sorted. " },
+        {
+          type: "link",
+          url: "https://docs.python.org",
+          children: [{ type: "text", value: "The docs. Say so" }],
+        },
+        { type: "text", value: " too." },
+      ],
+    };
+
+    const sentences = splitSentences(paragraph);
+
+    expect(sentences).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          { type: "text", value: "Call " },
+          { type: "inlineCode", value: "xs.sort(). Then" },
+          { type: "text", value: " it's sorted." },
+        ],
+      },
+      {
+        type: "paragraph",
+        children: [
+          {
+            type: "link",
+            url: "https://docs.python.org",
+            children: [{ type: "text", value: "The docs. Say so" }],
+          },
+          { type: "text", value: " too." },
+        ],
+      },
+    ]);
+
+    expect(joinSentences(sentences)).toEqual(paragraph);
+  });
+
+  test("plain text keeps its whitespace", () => {
+    const value = "Dr. Who is here.\nHe isn't\nalone!  Or is he?\n\n";
+    const sentences = splitTextSentences(value);
+
+    expect(sentences).toEqual([
+      "Dr. Who is here.\n",
+      "He isn't\nalone!  ",
+      "Or is he?\n\n",
+    ]);
+    expect(sentences.join("")).toEqual(value);
+  });
+});
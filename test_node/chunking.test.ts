@@ -0,0 +1,566 @@
+import { Buffer } from "node:buffer";
+import * as Fs from "node:fs";
+import * as Path from "node:path";
+import remarkDirective from "remark-directive";
+import remarkFrontmatter from "remark-frontmatter";
+import remarkGfm from "remark-gfm";
+import remarkParse from "remark-parse";
+import { unified } from "unified";
+import { describe, expect, test } from "vitest";
+import {
+  chunkWithContext,
+  type SemanticBlock,
+} from "../scripts/lib/chunk-with-context";
+import * as ChunkingProfile from "../scripts/lib/chunking-profile";
+import type * as Config from "../scripts/lib/config";
+import type { FinalizedChunk } from "../scripts/lib/finalized-chunk";
+import { parseSemanticBlocks } from "../scripts/lib/parse-semantic-blocks";
+import { processMarkdownFile } from "../scripts/lib/process-markdown-file";
+import { processNotebookFile } from "../scripts/lib/process-notebook-file";
+import { processTextFile } from "../scripts/lib/process-text-file";
+import * as Quarto from "../scripts/lib/quarto";
+import * as SourceRange from "../scripts/lib/source-range";
+import * as Result from "../shared/result";
+
+const markdownProcessor = unified()
+  .use(remarkParse)
+  .use(remarkDirective)
+  .use(remarkFrontmatter)
+  .use(remarkGfm);
+
+function fixtureInput(name: string, type: Config.Input["type"]): Config.Input {
+  return {
+    type,
+    work: "book",
+    file: Path.join(import.meta.dirname, "fixtures", name),
+    outputs: false,
+  };
+}
+
+/** The part of the file the chunk says it came from. */
+function sourceText(source: string, chunk: FinalizedChunk): string {
+  const range = chunk.sourceRange!;
+  return Buffer.from(source)
+    .subarray(range.startByte, range.endByte)
+    .toString("utf8");
+}
+
+function sourceLines(source: string, chunk: FinalizedChunk): string {
+  const range = chunk.sourceRange!;
+  return source
+    .split("\n")
+    .slice(range.startLine - 1, range.endLine)
+    .join("\n");
+}
+
+/** The ATX headings in effect on the given line, outside of code blocks. */
+function headingPathAt(markdown: string, line: number): string[] {
+  const path: { text: string; level: number }[] = [];
+  let inCode = false;
+
+  for (const text of markdown.split("\n").slice(0, line)) {
+    if (text.startsWith("```")) inCode = !inCode;
+
+    const match = !inCode && text.match(/^(#{1,6})\s+(.*?)(?:\s*\{.*\})?$/);
+    if (!match) continue;
+
+    const level = match[1]!.length;
+    while (path.length > 0 && path.at(-1)!.level >= level) path.pop();
+    path.push({ text: match[2]!, level });
+  }
+
+  return path.map((h) => h.text);
+}
+
+function block(text: string, tokens: number): SemanticBlock {
+  return {
+    type: "paragraph",
+    node: { type: "paragraph", children: [{ type: "text", value: text }] },
+    text,
+    markdown: text,
+    tokens,
+  };
+}
+
+function heading(text: string, level: 1 | 2): SemanticBlock {
+  // Headings have a few more fields than the other blocks.
+  const headingBlock = {
+    ...block(text, 5),
+    type: "heading",
+    keepWithNext: true,
+    headingLevel: level,
+    anchor: text.toLowerCase(),
+  };
+  return headingBlock;
+}
+
+/** Too long for two chunks with it to be merged. */
+const LONG_TEXT = "This sentence is only here to take up space. ".repeat(30);
+
+describe("chunkWithContext", () => {
+  test("uses the headings in effect for the first block of a chunk", async () => {
+    const chunks = await chunkWithContext(
+      [
+        heading("A", 1),
+        block(LONG_TEXT, 194),
+        heading("B", 2),
+        block("Short.", 5),
+      ],
+      "book",
+      "Title",
+      undefined,
+    );
+
+    expect(chunks.map((chunk) => chunk.headingPath)).toEqual([
+      ["A"],
+      ["A", "B"],
+    ]);
+  });
+
+  test("uses the innermost of the headings a chunk starts with", async () => {
+    const chunks = await chunkWithContext(
+      [heading("Chapter", 1), heading("Intro", 2), block("Text.", 20)],
+      "book",
+      "Title",
+      "https://example.com/chapter.html",
+    );
+
+    expect(chunks.map((chunk) => chunk.headingPath)).toEqual([
+      ["Chapter", "Intro"],
+    ]);
+    expect(chunks[0]!.sourceUrl).toEqual(
+      "https://example.com/chapter.html#intro",
+    );
+    expect(chunks[0]!.rawText).toMatch(/^# Chapter > Intro\n/);
+  });
+
+  test("keeps headings with the block after them", async () => {
+    const chunks = await chunkWithContext(
+      [
+        heading("A", 1),
+        block(LONG_TEXT, 190),
+        heading("B", 2),
+        block("Body.", 20),
+      ],
+      "book",
+      "Title",
+      undefined,
+    );
+
+    expect(
+      chunks.map((chunk) => [chunk.headingPath, chunk.blockTypes]),
+    ).toEqual([
+      [["A"], ["heading", "paragraph"]],
+      [
+        ["A", "B"],
+        ["heading", "paragraph"],
+      ],
+    ]);
+  });
+
+  test("merges a small section at the end into its parent", async () => {
+    const chunks = await chunkWithContext(
+      [
+        heading("A", 1),
+        block("Long.", 150),
+        heading("B", 2),
+        block("Short.", 20),
+      ],
+      "book",
+      "Title",
+      undefined,
+    );
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]!.headingPath).toEqual(["A"]);
+    expect(chunks[0]!.markdownText).toContain("Short.");
+  });
+
+  test("overlaps with the last sentences of a paragraph", async () => {
+    const sentences = Array.from(
+      { length: 30 },
+      (_, i) => `This is sentence number ${i + 1}.`,
+    );
+    const chunks = await chunkWithContext(
+      [heading("A", 1), block(sentences.join(" "), 190), block(LONG_TEXT, 190)],
+      "book",
+      "Title",
+      undefined,
+      {
+        profile: {
+          ...ChunkingProfile.DEFAULT_CHUNKING_PROFILE,
+          overlapTokens: 40,
+        },
+      },
+    );
+
+    const overlap = chunks[1]!.markdownText.slice(0, chunks[1]!.overlapLength);
+    expect(overlap).toContain("sentence number 30.");
+    expect(overlap).not.toContain("sentence number 1.");
+    expect(chunks[1]!.markdownText.slice(overlap.length)).toEqual(LONG_TEXT);
+  });
+
+  test("doesn't merge a small section into a sibling", async () => {
+    const chunks = await chunkWithContext(
+      [
+        heading("A", 1),
+        block("Long.", 190),
+        heading("C", 1),
+        block("Short.", 20),
+      ],
+      "book",
+      "Title",
+      undefined,
+    );
+
+    expect(chunks.map((chunk) => chunk.headingPath)).toEqual([["A"], ["C"]]);
+  });
+
+  test("merges a small section in the middle into its parent", async () => {
+    const chunks = await chunkWithContext(
+      [
+        heading("A", 1),
+        block("Long.", 150),
+        heading("B", 2),
+        block("Short.", 20),
+        heading("C", 1),
+        block("Other.", 20),
+      ],
+      "book",
+      "Title",
+      undefined,
+    );
+
+    expect(chunks.map((chunk) => chunk.headingPath)).toEqual([["A"], ["C"]]);
+    expect(chunks[0]!.markdownText).toContain("Short.");
+  });
+
+  test("doesn't merge chunks of the same section", async () => {
+    const chunks = await chunkWithContext(
+      [block(LONG_TEXT, 150), block(LONG_TEXT, 150), block("Short.", 20)],
+      "book",
+      "Title",
+      undefined,
+    );
+
+    expect(chunks).toHaveLength(2);
+  });
+
+  test("merges sections only within the profile's limit", async () => {
+    const chunks = await chunkWithContext(
+      [
+        heading("A", 1),
+        block("Long.", 80),
+        heading("B", 2),
+        block("Short.", 20),
+      ],
+      "book",
+      "Title",
+      undefined,
+      {
+        profile: {
+          ...ChunkingProfile.DEFAULT_CHUNKING_PROFILE,
+          maxTokens: 100,
+        },
+      },
+    );
+
+    expect(chunks.map((chunk) => chunk.headingPath)).toEqual([
+      ["A"],
+      ["A", "B"],
+    ]);
+  });
+});
+
+describe("processMarkdownFile", async () => {
+  const input = fixtureInput("sequences.md", "markdown");
+  const source = Fs.readFileSync(input.file, "utf8");
+  const chunks = await processMarkdownFile(
+    markdownProcessor,
+    input,
+    ChunkingProfile.defaultProfile(input.type),
+  );
+
+  test("splits the document into several chunks", () => {
+    expect(chunks.length).toBeGreaterThan(2);
+  });
+
+  test("uses the heading path of the line a chunk starts on", () => {
+    for (const chunk of chunks) {
+      expect(chunk.headingPath).toEqual(
+        headingPathAt(source, chunk.sourceRange!.startLine),
+      );
+    }
+  });
+
+  test("never has chunks with nothing but headings", () => {
+    for (const chunk of chunks) {
+      expect(chunk.blockTypes).not.toEqual(["heading"]);
+    }
+  });
+
+  test("records byte ranges that agree with the line ranges", () => {
+    for (const chunk of chunks) {
+      expect(sourceText(source, chunk)).toEqual(
+        sourceLines(source, chunk).trim(),
+      );
+    }
+  });
+
+  test("covers the document in order, up to its end", () => {
+    const starts = chunks.map((chunk) => chunk.sourceRange!.startByte);
+    expect(starts).toEqual(starts.toSorted((a, b) => a - b));
+    expect(chunks.at(-1)!.sourceRange!.endByte).toEqual(
+      Buffer.byteLength(source.trimEnd()),
+    );
+  });
+});
+
+describe("processTextFile", async () => {
+  const input = fixtureInput("notes.txt", "text");
+  const source = Fs.readFileSync(input.file, "utf8");
+  const chunks = await processTextFile(
+    input,
+    ChunkingProfile.defaultProfile(input.type),
+  );
+
+  test("keeps the end of the document", () => {
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.at(-1)!.rawText).toContain(
+      "This is the last paragraph of the document",
+    );
+    expect(chunks.at(-1)!.sourceRange!.endByte).toEqual(
+      Buffer.byteLength(source.trimEnd()),
+    );
+  });
+
+  test("starts chunks with the end of the chunk before", () => {
+    for (let i = 1; i < chunks.length; i++) {
+      const overlapLength = chunks[i]!.overlapLength!;
+      expect(overlapLength).toBeGreaterThan(0);
+      expect(
+        chunks[i - 1]!.rawText.endsWith(
+          chunks[i]!.rawText.slice(0, overlapLength),
+        ),
+      ).toBe(true);
+    }
+  });
+
+  test("records the range of the text without the overlap", () => {
+    expect(chunks[0]!.sourceRange!.startByte).toEqual(0);
+
+    for (const chunk of chunks) {
+      const text = sourceText(source, chunk);
+      expect(chunk.rawText.trimEnd().endsWith(text)).toBe(true);
+      expect(text).toEqual(sourceLines(source, chunk).trim());
+    }
+
+    // Each chunk picks up where the one before left off.
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i]!.sourceRange!.startLine).toEqual(
+        chunks[i - 1]!.sourceRange!.endLine + 2,
+      );
+    }
+  });
+});
+
+describe("processNotebookFile", async () => {
+  const input = { ...fixtureInput("squares.ipynb", "ipynb"), outputs: true };
+  // Small enough that a chunk would otherwise end between a cell and its
+  // output.
+  const profile = {
+    ...ChunkingProfile.DEFAULT_CHUNKING_PROFILE,
+    maxTokens: 30,
+  };
+  const result = await processNotebookFile(markdownProcessor, input, profile);
+
+  if (Result.isError(result)) {
+    throw new Error(`Failed to process notebook: ${result.error}`);
+  }
+
+  const chunks = result.value;
+
+  test("keeps the outputs of a cell in the chunk with its code", () => {
+    expect(chunks.length).toBeGreaterThan(2);
+
+    for (let i = 1; i < chunks.length; i++) {
+      const cells = chunks[i]!.cellIndices!;
+      expect(chunks[i - 1]!.cellIndices!).not.toContain(cells[0]);
+    }
+  });
+});
+
+describe("splitting tables", async () => {
+  const input = fixtureInput("tables.md", "markdown");
+  const source = Fs.readFileSync(input.file, "utf8");
+  const blocks = await parseSemanticBlocks(
+    markdownProcessor.parse(source),
+    ChunkingProfile.defaultProfile(input.type),
+  );
+  const tables = blocks.filter((b) => b.type === "table");
+  const codons = tables.filter((table) => table.markdown.startsWith("| Codon"));
+  const enzymes = tables.filter((table) =>
+    table.markdown.startsWith("| Enzyme"),
+  );
+
+  /** The first cell of each row of the table, below the header. */
+  function firstCells(markdown: string): string[] {
+    return markdown
+      .trim()
+      .split("\n")
+      .slice(2)
+      .map((row) => row.split("|")[1]!.trim());
+  }
+
+  test("splits big tables into groups of rows", () => {
+    expect(codons.length).toBeGreaterThan(1);
+    expect(enzymes.length).toBeGreaterThan(1);
+    expect(tables).toHaveLength(codons.length + enzymes.length);
+  });
+
+  test("repeats the header in each group, and keeps every row once", () => {
+    for (const table of tables) {
+      expect(table.markdown.split("\n")[1]).toMatch(/^\| -+ \|/);
+    }
+
+    expect(codons.flatMap((table) => firstCells(table.markdown))).toEqual(
+      [...source.matchAll(/^\| ([ACGT]{3}) \|/gm)].map((match) => match[1]),
+    );
+    expect(enzymes.flatMap((table) => firstCells(table.markdown))).toEqual(
+      [...source.matchAll(/^\| (\w+) \| \*/gm)].map((match) => match[1]),
+    );
+  });
+
+  test("starts the text of each group with the caption", () => {
+    for (const table of codons) {
+      expect(table.text).toEqual(
+        `Some of the standard codons\n\n${table.markdown}`,
+      );
+    }
+  });
+
+  test("starts the text of each group with the sentence before the table", () => {
+    for (const table of enzymes) {
+      expect(table.text).toEqual(
+        `These are the ones that we use in this chapter:\n\n${table.markdown}`,
+      );
+    }
+  });
+});
+
+describe("chunking profiles", () => {
+  const input = fixtureInput("sequences.md", "markdown");
+
+  test("can leave out the breadcrumbs", async () => {
+    const chunks = await processMarkdownFile(markdownProcessor, input, {
+      ...ChunkingProfile.DEFAULT_CHUNKING_PROFILE,
+      breadcrumbs: false,
+    });
+
+    expect(chunks[0]!.headingPath).toEqual(["Working with Sequences"]);
+    expect(chunks[0]!.rawText).toMatch(/^Working with Sequences\n\n/);
+  });
+
+  test("can skip types of nodes and blocks", async () => {
+    const chunks = await processMarkdownFile(markdownProcessor, input, {
+      ...ChunkingProfile.DEFAULT_CHUNKING_PROFILE,
+      skipNodeTypes: ["code", "callout-note"],
+    });
+    const blockTypes = chunks.flatMap((chunk) => chunk.blockTypes);
+
+    expect(blockTypes).not.toContain("code");
+    expect(blockTypes).not.toContain("callout-note");
+    expect(blockTypes).toContain("paragraph");
+  });
+
+  test("can split code at any line", async () => {
+    const code = {
+      type: "code",
+      lang: "python",
+      value: Array.from({ length: 40 }, (_, i) => `x${i} = ${i}`).join("\n"),
+    } as const;
+    const profile = {
+      ...ChunkingProfile.DEFAULT_CHUNKING_PROFILE,
+      maxTokens: 50,
+      targetTokens: 50,
+    };
+    const tree = { type: "root", children: [code] } as const;
+
+    const byLines = await parseSemanticBlocks(tree, {
+      ...profile,
+      codeSplitting: "lines",
+    });
+    const byBlankLines = await parseSemanticBlocks(tree, profile);
+
+    expect(byLines.length).toBeGreaterThan(1);
+    expect(byBlankLines).toHaveLength(1);
+  });
+});
+
+describe("source ranges", () => {
+  const text = "::: {.callout-note}\nA note.\n:::\n";
+  const file = SourceRange.indexSourceFile(
+    text,
+    Quarto.fencedDivsToDirectives(text),
+  );
+
+  test("map the ends of rewritten lines back onto the file", () => {
+    expect(
+      SourceRange.rangeFromPoints(
+        file,
+        { line: 1, column: 1 },
+        { line: 3, column: 4 },
+      ),
+    ).toEqual({
+      startLine: 1,
+      endLine: 3,
+      startByte: 0,
+      endByte: text.trimEnd().length,
+    });
+    expect(
+      SourceRange.rangeFromPoints(
+        file,
+        { line: 1, column: 1 },
+        { line: 1, column: file.rewrittenLines.get(0)!.length + 1 },
+      ),
+    ).toEqual({
+      startLine: 1,
+      endLine: 1,
+      startByte: 0,
+      endByte: "::: {.callout-note}".length,
+    });
+  });
+
+  test("leave out points that aren't in the file", () => {
+    expect(
+      SourceRange.rangeFromPoints(
+        file,
+        { line: 1, column: 5 },
+        { line: 2, column: 8 },
+      ),
+    ).toBeUndefined();
+    expect(
+      SourceRange.rangeFromPoints(
+        file,
+        { line: 2, column: 1 },
+        { line: 2, column: 20 },
+      ),
+    ).toBeUndefined();
+  });
+
+  test("count bytes across lines with multibyte characters", () => {
+    const unicode = "Café ☕\nNaïve\n\nTschüß\n";
+    const range = SourceRange.rangeFromOffsets(
+      SourceRange.indexSourceFile(unicode),
+      unicode.indexOf("Naïve") + 2,
+      unicode.length,
+    );
+
+    expect(range).toEqual({
+      startLine: 2,
+      endLine: 4,
+      startByte: Buffer.byteLength("Café ☕\nNa"),
+      endByte: Buffer.byteLength(unicode.trimEnd()),
+    });
+  });
+});
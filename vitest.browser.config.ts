@@ -5,6 +5,7 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
   plugins: [react()],
   test: {
+    include: ['test_browser/**/*.test.ts'],
     browser: {
       enabled: true,
       provider: playwright(),
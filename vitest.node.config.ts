@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: ['test_node/**/*.test.ts'],
+    environment: 'node',
+    // The first test to count tokens has to load the tokenizer.
+    testTimeout: 60_000,
+  },
+})